@@ -1,21 +1,76 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { AddressInput } from './components/AddressInput';
+import { EnvironmentSelector } from './components/EnvironmentSelector';
+import { RequestStatusBadge } from './components/RequestStatusBadge';
 import { PositionList } from './components/PositionList';
 import { PriceChart } from './components/PriceChart';
 import { SimulationControls } from './components/SimulationControls';
 import { PositionStats } from './components/PositionStats';
 import { TradingActivity } from './components/TradingActivity';
 import { PortfolioSummary } from './components/PortfolioSummary';
+import { CorrelatedShockPanel } from './components/CorrelatedShockPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { HistoricalReplayPanel } from './components/HistoricalReplayPanel';
+import { CrisisScenarioPanel } from './components/CrisisScenarioPanel';
+import { FundingPanel } from './components/FundingPanel';
+import { WhatIfEditor } from './components/WhatIfEditor';
+import { HypotheticalTradeBuilder } from './components/HypotheticalTradeBuilder';
+import { SafeSizePanel } from './components/SafeSizePanel';
+import { LiquidationHeatmapPanel } from './components/LiquidationHeatmapPanel';
 import { useHyperliquid } from './hooks/useHyperliquid';
 import { useWebSocket } from './hooks/useWebSocket';
-import { Position, SimulationState, PriceData, CandleData } from './types';
+import { useCandleHistory } from './hooks/useCandleHistory';
+import { useFundingRates } from './hooks/useFundingRates';
+import { useOrderBook } from './hooks/useOrderBook';
+import { useHypotheticalTrades } from './hooks/useHypotheticalTrades';
+import {
+  Position,
+  SimulationState,
+  PriceData,
+  CandleData,
+  PriceVector,
+  CorrelatedShockResult,
+  MonteCarloConfig,
+  MonteCarloResult,
+  ReplayResult,
+  CrisisScenarioResult,
+  FundingHoldConfig,
+  FundingHoldResult,
+  OrderPathResult,
+  PathModelType,
+  SafeSizeConfig,
+  SafeSizeResult,
+  EnvironmentConfig,
+} from './types';
 import {
   calculateNewPrice,
-  isPositionLiquidated,
   calculatePnL,
+  calculateAllocatedMargin,
   generatePriceHistory,
+  findPathLiquidation,
+  interpolatePathCrossing,
 } from './services/calculations';
-import { fetchCandleData } from './services/hyperliquid';
+import { createHyperliquidClient } from './services/hyperliquid';
+import { loadEnvironmentConfig, saveEnvironmentConfig, addressStorageKey } from './services/environment';
+import {
+  buildCrossPortfolio,
+  evaluatePortfolio,
+  calculatePortfolioEquity,
+  toPriceVector,
+} from './services/portfolio';
+import { estimateBetas, applyBetaOverrides, simulateCorrelatedShock } from './services/shocks';
+import { runMonteCarlo, calculateHourlyVolatility } from './services/monteCarlo';
+import { calculatePortfolioRisk } from './services/valueAtRisk';
+import { findWorstWindow, replayPath } from './services/replay';
+import { runCrisisScenario, resolveScenarioPath } from './services/crisisScenarios';
+import { CRISIS_SCENARIO_LIBRARY } from './data/crisisScenarios';
+import { simulateFundingHold } from './services/funding';
+import { estimateCloseImpact } from './services/orderBook';
+import { buildHypotheticalPosition, addHypotheticalsToPortfolio } from './services/hypothetical';
+import { toSimulatedOrders, simulateOrdersOnPath } from './services/orders';
+import { calculateMaxSafeSize, sigmaAdverseMove } from './services/sizing';
+import { calibratePathModel, createSeed } from './services/pathModels';
+import { simulateLiquidationProcess } from './services/liquidation';
 
 // Timeframe configuration
 const TIMEFRAME_CONFIG = {
@@ -25,8 +80,34 @@ const TIMEFRAME_CONFIG = {
   'All': { interval: '1d', hours: 2160 }, // 90 days
 } as const;
 
+// Hourly candles searched for the worst historical window to replay
+const REPLAY_SEARCH_CONFIG = { interval: '1h', hours: 2160, windowHours: 24 } as const;
+
+// Candle history for betas and volatility estimates (30 days of hourly returns)
+const RISK_HISTORY_CONFIG = { interval: '1h', hours: 720 } as const;
+
+// Settled funding averaged for the historical rate source (7 days)
+const FUNDING_HISTORY_HOURS = 168;
+
+// Hourly points of a generated scenario path
+const SIMULATION_STEPS = 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
 function App() {
-  const { positions, isLoading, error, fetchPositions, accountData } = useHyperliquid();
+  const [environmentConfig, setEnvironmentConfig] = useState<EnvironmentConfig>(loadEnvironmentConfig);
+  const client = useMemo(() => createHyperliquidClient(environmentConfig), [environmentConfig]);
+  const {
+    positions,
+    isLoading,
+    error,
+    fetchPositions,
+    accountData,
+    marginModel,
+    openOrders,
+    spotBalances,
+  } = useHyperliquid(client);
   const [selectedPosition, setSelectedPosition] = useState<Position | null>(null);
   const [simulationState, setSimulationState] = useState<SimulationState>({
     isSimulating: false,
@@ -34,6 +115,7 @@ function App() {
     priceChange: 0,
     isLiquidated: false,
     simulatedPnl: null,
+    liquidationPrice: null,
   });
   const [priceHistory, setPriceHistory] = useState<PriceData[]>([]);
   const [candleData, setCandleData] = useState<CandleData[]>([]);
@@ -47,6 +129,85 @@ function App() {
   
   // Live positions with WebSocket price updates
   const [livePositions, setLivePositions] = useState<Position[]>([]);
+
+  // Planned trades saved for this address, merged into the book as if filled
+  const {
+    trades: hypotheticalTrades,
+    addTrade: addHypotheticalTrade,
+    removeTrade: removeHypotheticalTrade,
+  } = useHypotheticalTrades(environmentConfig.environment, savedAddress);
+
+  const hypotheticalPositions = useMemo(
+    () => hypotheticalTrades.map(trade =>
+      buildHypotheticalPosition(trade, marginModel?.[trade.coin]?.markPrice ?? null, marginModel)
+    ),
+    [hypotheticalTrades, marginModel]
+  );
+
+  // Cross-margin account snapshot used to recompute liquidation across positions
+  const crossPortfolio = useMemo(
+    () => (accountData
+      ? addHypotheticalsToPortfolio(buildCrossPortfolio(accountData), hypotheticalPositions, marginModel)
+      : null),
+    [accountData, hypotheticalPositions, marginModel]
+  );
+
+  // Same account revalued with maintenance from the margin model, for sanity-checking the API
+  const derivedPortfolio = useMemo(
+    () => (accountData && marginModel
+      ? addHypotheticalsToPortfolio(buildCrossPortfolio(accountData, marginModel), hypotheticalPositions, marginModel)
+      : null),
+    [accountData, marginModel, hypotheticalPositions]
+  );
+
+  // Exchange positions plus planned trades. Planned cross trades share the
+  // account's equity, so every cross liquidation level is recomputed with them.
+  const bookPositions = useMemo(() => {
+    if (hypotheticalPositions.length === 0) return positions;
+
+    const combined = [...positions, ...hypotheticalPositions];
+    if (!crossPortfolio) return combined;
+
+    const { liquidationPrices } = evaluatePortfolio(crossPortfolio, {});
+    return combined.map(pos =>
+      pos.marginMode === 'cross' && pos.coin in liquidationPrices
+        ? { ...pos, liquidationPrice: liquidationPrices[pos.coin] }
+        : pos
+    );
+  }, [positions, hypotheticalPositions, crossPortfolio]);
+  
+  // Correlated multi-asset shock state
+  const [shockDriver, setShockDriver] = useState('BTC');
+  const [betaOverrides, setBetaOverrides] = useState<Record<string, number>>({});
+  const [shockResult, setShockResult] = useState<CorrelatedShockResult | null>(null);
+  
+  // Monte Carlo liquidation probability state
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloResult | null>(null);
+  const [isRunningMonteCarlo, setIsRunningMonteCarlo] = useState(false);
+  
+  // Historical path replay state
+  const [replayResult, setReplayResult] = useState<ReplayResult | null>(null);
+  const [replayStep, setReplayStep] = useState(0);
+  const [isLoadingReplay, setIsLoadingReplay] = useState(false);
+  
+  // Open orders worked along the last simulated path
+  const [orderPath, setOrderPath] = useState<OrderPathResult | null>(null);
+
+  // Path model and seed for generated price paths; the seed makes a path
+  // repeatable, and with none each run draws a fresh one
+  const [pathModelType, setPathModelType] = useState<PathModelType>('gbm');
+  const [pathSeed, setPathSeed] = useState<number | null>(() => createSeed());
+
+  // Max safe size solver state
+  const [safeSizeResult, setSafeSizeResult] = useState<SafeSizeResult | null>(null);
+  const [safeSizeError, setSafeSizeError] = useState<string | null>(null);
+  const [isSolvingSafeSize, setIsSolvingSafeSize] = useState(false);
+
+  // Funding accrual state
+  const [fundingResult, setFundingResult] = useState<FundingHoldResult | null>(null);
+  
+  // Historical crisis scenario state
+  const [activeCrisisId, setActiveCrisisId] = useState<string | null>(null);
   
   // Pull-to-refresh state
   const [isPulling, setIsPulling] = useState(false);
@@ -57,18 +218,19 @@ function App() {
   
   // WebSocket for real-time prices
   const { prices: livePrices, isConnected: wsConnected } = useWebSocket({
-    enabled: !!savedAddress && positions.length > 0,
+    url: environmentConfig.wsUrl,
+    enabled: !!savedAddress && bookPositions.length > 0,
     throttleMs: 2000, // Update UI every 2 seconds max
   });
 
   // Update positions with live prices
   useEffect(() => {
     if (Object.keys(livePrices).length === 0) {
-      setLivePositions(positions);
+      setLivePositions(bookPositions);
       return;
     }
     
-    const updated = positions.map(pos => {
+    const updated = bookPositions.map(pos => {
       const livePrice = livePrices[pos.coin];
       if (!livePrice) return pos;
       
@@ -81,8 +243,29 @@ function App() {
         ...pos,
         currentPrice,
         unrealizedPnl,
+        // Isolated margin is the bucket's equity, so it moves with the PnL
+        margin: pos.marginMode === 'isolated' ? pos.margin + unrealizedPnl - pos.unrealizedPnl : pos.margin,
       };
     });
+
+    // Cross liquidation levels move with every other cross position's PnL
+    const livePriceVector = toPriceVector(livePrices);
+    if (crossPortfolio) {
+      const { liquidationPrices } = evaluatePortfolio(crossPortfolio, livePriceVector);
+      updated.forEach((pos, index) => {
+        if (pos.marginMode === 'cross' && pos.coin in liquidationPrices) {
+          updated[index] = { ...pos, liquidationPrice: liquidationPrices[pos.coin] };
+        }
+      });
+    }
+    if (derivedPortfolio) {
+      const { liquidationPrices } = evaluatePortfolio(derivedPortfolio, livePriceVector);
+      updated.forEach((pos, index) => {
+        if (pos.marginMode === 'cross' && pos.coin in liquidationPrices) {
+          updated[index] = { ...updated[index], derivedLiquidationPrice: liquidationPrices[pos.coin] };
+        }
+      });
+    }
     
     setLivePositions(updated);
     
@@ -93,7 +276,104 @@ function App() {
         setSelectedPosition(updatedSelected);
       }
     }
-  }, [livePrices, positions]);
+  }, [livePrices, bookPositions, crossPortfolio, derivedPortfolio]);
+
+  // Current price of every loaded position, used to revalue the cross account
+  const livePriceVector = useMemo(
+    () => livePositions.reduce<PriceVector>((acc, pos) => {
+      acc[pos.coin] = pos.currentPrice;
+      return acc;
+    }, {}),
+    [livePositions]
+  );
+
+  // Equity shared by all cross positions
+  const crossEquity = useMemo(
+    () => (crossPortfolio ? calculatePortfolioEquity(crossPortfolio, livePriceVector) : null),
+    [crossPortfolio, livePriceVector]
+  );
+
+  // Coins held plus the majors, any of which can drive a correlated shock
+  const positionCoins = useMemo(() => bookPositions.map(p => p.coin), [bookPositions]);
+  const shockDriverOptions = useMemo(
+    () => [...new Set(['BTC', 'ETH', ...positionCoins])],
+    [positionCoins]
+  );
+
+  // Perp coins that spot holdings follow in stress scenarios
+  const spotShockCoins = useMemo(
+    () => [...new Set(spotBalances.flatMap(b => (b.shockCoin && b.value > 0 ? [b.shockCoin] : [])))],
+    [spotBalances]
+  );
+
+  const { candlesByCoin: riskCandles, isLoading: isLoadingRiskHistory } = useCandleHistory({
+    client,
+    coins: [shockDriver, ...positionCoins, ...spotShockCoins],
+    interval: RISK_HISTORY_CONFIG.interval,
+    lookbackHours: RISK_HISTORY_CONFIG.hours,
+    enabled: positionCoins.length > 0 || spotShockCoins.length > 0,
+  });
+
+  const shockBetas = useMemo(
+    () => applyBetaOverrides(
+      estimateBetas(shockDriver, [...new Set([...positionCoins, ...spotShockCoins])], riskCandles),
+      betaOverrides
+    ),
+    [shockDriver, positionCoins, spotShockCoins, riskCandles, betaOverrides]
+  );
+
+  // VaR / Expected Shortfall for the loaded account
+  const portfolioRisk = useMemo(
+    () => calculatePortfolioRisk(livePositions, riskCandles),
+    [livePositions, riskCandles]
+  );
+
+  const {
+    historyByCoin: fundingHistory,
+    predicted: predictedFunding,
+    isLoading: isLoadingFunding,
+  } = useFundingRates({
+    client,
+    coins: positionCoins,
+    lookbackHours: FUNDING_HISTORY_HOURS,
+    enabled: positionCoins.length > 0,
+  });
+
+  // Order book of the selected coin for slippage and liquidation loss estimates
+  const { book: orderBook, isLoading: isLoadingOrderBook } = useOrderBook({
+    client,
+    coin: selectedPosition?.coin ?? null,
+  });
+
+  const closeImpact = useMemo(() => {
+    if (!selectedPosition || !orderBook || orderBook.coin !== selectedPosition.coin) return null;
+    const liquidationPrice = simulationState.isSimulating
+      ? simulationState.liquidationPrice
+      : selectedPosition.liquidationPrice;
+    return estimateCloseImpact(selectedPosition, orderBook, liquidationPrice);
+  }, [selectedPosition, orderBook, simulationState]);
+
+  // Path model parameters for the selected coin from its hourly candles
+  const pathCalibration = useMemo(
+    () => (selectedPosition ? calibratePathModel(riskCandles[selectedPosition.coin] ?? []) : null),
+    [selectedPosition, riskCandles]
+  );
+
+  // The selected position's resting and trigger orders, filled along simulated paths
+  const selectedOrders = useMemo(
+    () => (selectedPosition ? toSimulatedOrders(openOrders, selectedPosition.coin) : []),
+    [openOrders, selectedPosition]
+  );
+
+  // Outcome of every bundled crisis scenario for the current positions
+  const crisisResults = useMemo(() => {
+    const results: Record<string, CrisisScenarioResult> = {};
+    if (livePositions.length === 0) return results;
+    CRISIS_SCENARIO_LIBRARY.scenarios.forEach((scenario) => {
+      results[scenario.id] = runCrisisScenario(scenario, livePositions, crossPortfolio, spotBalances);
+    });
+    return results;
+  }, [livePositions, crossPortfolio, spotBalances]);
 
   // Check if mobile
   useEffect(() => {
@@ -105,14 +385,14 @@ function App() {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  // Load saved address on mount
+  // Load the address saved for this environment on mount and on every switch
   useEffect(() => {
-    const saved = localStorage.getItem('hyperliquid_address');
+    const saved = localStorage.getItem(addressStorageKey(environmentConfig.environment));
+    setSavedAddress(saved);
     if (saved) {
-      setSavedAddress(saved);
       fetchPositions(saved);
     }
-  }, []);
+  }, [fetchPositions]);
 
   // Auto-select first position on mobile
   useEffect(() => {
@@ -156,6 +436,7 @@ function App() {
       setPullDistance(40); // Keep spinner visible
       
       try {
+        client.invalidateCache();
         await fetchPositions(savedAddress);
       } finally {
         setIsRefreshing(false);
@@ -165,7 +446,7 @@ function App() {
       setPullDistance(0);
     }
     setIsPulling(false);
-  }, [pullDistance, savedAddress, isRefreshing, fetchPositions]);
+  }, [pullDistance, savedAddress, isRefreshing, client, fetchPositions]);
 
   // Handle fetching positions - clear data immediately for faster perceived switch
   const handleFetchPositions = async (address: string) => {
@@ -173,11 +454,16 @@ function App() {
     setSelectedPosition(null);
     setLivePositions([]);
     resetSimulation();
+    setShockResult(null);
+    setMonteCarloResult(null);
+    setFundingResult(null);
     setCandleData([]);
     
-    localStorage.setItem('hyperliquid_address', address);
+    localStorage.setItem(addressStorageKey(environmentConfig.environment), address);
     setSavedAddress(address);
     
+    // An explicit load always reaches the API rather than the request cache
+    client.invalidateCache();
     await fetchPositions(address);
     
     if (isMobile && positions.length > 0) {
@@ -187,11 +473,28 @@ function App() {
 
   // Handle clearing saved address
   const handleClearAddress = () => {
-    localStorage.removeItem('hyperliquid_address');
+    localStorage.removeItem(addressStorageKey(environmentConfig.environment));
     setSavedAddress(null);
     setSelectedPosition(null);
     setLivePositions([]);
     resetSimulation();
+    setShockResult(null);
+    setMonteCarloResult(null);
+    setFundingResult(null);
+    setCandleData([]);
+  };
+
+  // Handle switching environment - positions, prices and the saved address all
+  // belong to the network, so start over from what was saved for the new one
+  const handleEnvironmentChange = (config: EnvironmentConfig) => {
+    saveEnvironmentConfig(config);
+    setEnvironmentConfig(config);
+    setSelectedPosition(null);
+    setLivePositions([]);
+    resetSimulation();
+    setShockResult(null);
+    setMonteCarloResult(null);
+    setFundingResult(null);
     setCandleData([]);
   };
 
@@ -214,7 +517,7 @@ function App() {
     setIsLoadingCandles(true);
     try {
       const config = TIMEFRAME_CONFIG[timeframe];
-      const candles = await fetchCandleData(coin, config.interval, config.hours);
+      const candles = await client.fetchCandleData(coin, config.interval, config.hours);
       setCandleData(candles);
     } catch (error) {
       console.error('Failed to load candle data:', error);
@@ -229,22 +532,288 @@ function App() {
     if (!selectedPosition) return;
 
     const newPrice = calculateNewPrice(selectedPosition.currentPrice, percentChange);
-    const isLiquidated = isPositionLiquidated(selectedPosition, newPrice);
-    const simulatedPnl = calculatePnL(selectedPosition, newPrice);
+
+    // Isolated positions liquidate at their own fixed level; cross positions
+    // are liquidated with the whole account, revalued with only this coin moved
+    let liquidationPrice = selectedPosition.liquidationPrice;
+    if (selectedPosition.marginMode === 'cross' && crossPortfolio) {
+      const prices = { ...livePriceVector, [selectedPosition.coin]: newPrice };
+      liquidationPrice = evaluatePortfolio(crossPortfolio, prices).liquidationPrices[selectedPosition.coin];
+    }
 
     const history = generatePriceHistory(
       selectedPosition.currentPrice,
       newPrice,
-      60
+      SIMULATION_STEPS,
+      Date.now(),
+      HOUR_MS,
+      { type: pathModelType, seed: pathSeed ?? createSeed(), calibration: pathCalibration }
     );
 
-    setPriceHistory(history);
+    // Fills along the way resize the position and move its liquidation level
+    const ordersOnPath = selectedOrders.length > 0
+      ? simulateOrdersOnPath(
+          selectedPosition,
+          selectedOrders,
+          history.map(p => p.price),
+          crossPortfolio,
+          livePriceVector,
+          marginModel
+        )
+      : null;
+
+    // The noisy path can pass through liquidation even when the endpoint does not
+    const pathLiquidation = ordersOnPath
+      ? (ordersOnPath.liquidationStep !== null && ordersOnPath.liquidatedAt !== null
+          ? interpolatePathCrossing(history, ordersOnPath.liquidationStep, ordersOnPath.liquidatedAt)
+          : null)
+      : findPathLiquidation(selectedPosition.side, liquidationPrice, history);
+
+    // Without fills the engine's partial closes and backstop play out along the path
+    const liquidationProcess = !ordersOnPath && pathLiquidation
+      ? simulateLiquidationProcess(
+          selectedPosition,
+          history,
+          crossPortfolio,
+          livePriceVector,
+          orderBook?.coin === selectedPosition.coin ? orderBook : null,
+          marginModel
+        )
+      : null;
+
+    // Stop the path once the position is gone, with a point at every engine action
+    let simulatedPath = history;
+    if (liquidationProcess) {
+      const endTime = liquidationProcess.endTime;
+      simulatedPath = [
+        ...history.filter(p => endTime === null || p.time < endTime),
+        ...liquidationProcess.steps.map(step => ({ time: step.time, price: step.price })),
+      ].sort((a, b) => a.time - b.time);
+    } else if (pathLiquidation) {
+      simulatedPath = [...history.slice(0, pathLiquidation.step), { time: pathLiquidation.time, price: pathLiquidation.price }];
+    }
+    const finalPrice = simulatedPath[simulatedPath.length - 1].price;
+
+    let simulatedPnl = calculatePnL(selectedPosition, finalPrice);
+    if (ordersOnPath) {
+      simulatedPnl = ordersOnPath.finalPnl;
+    } else if (liquidationProcess) {
+      const direction = selectedPosition.side === 'long' ? 1 : -1;
+      simulatedPnl = liquidationProcess.realizedPnl
+        + direction * liquidationProcess.finalSize * (finalPrice - selectedPosition.entryPrice);
+    }
+
+    setPriceHistory(simulatedPath);
+    setReplayResult(null);
+    setOrderPath(ordersOnPath);
     setSimulationState({
       isSimulating: true,
-      simulatedPrice: newPrice,
-      priceChange: percentChange,
-      isLiquidated,
+      simulatedPrice: finalPrice,
+      priceChange: ((finalPrice - selectedPosition.currentPrice) / selectedPosition.currentPrice) * 100,
+      isLiquidated: pathLiquidation !== null,
       simulatedPnl,
+      liquidationPrice: ordersOnPath ? ordersOnPath.finalLiquidationPrice ?? ordersOnPath.liquidatedAt : liquidationPrice,
+      pathLiquidation,
+      liquidationProcess,
+    });
+
+    if (isMobile) {
+      setShowControls(false);
+    }
+  };
+
+  // Handle correlated shock: move the driver and every position by its beta
+  const handleCorrelatedShock = (driverChange: number) => {
+    if (livePositions.length === 0) return;
+
+    const result = simulateCorrelatedShock(
+      livePositions,
+      crossPortfolio,
+      shockDriver,
+      driverChange,
+      shockBetas,
+      spotBalances
+    );
+    setShockResult(result);
+
+    // Show the selected position's leg of the shock on the chart and stats
+    const selectedResult = selectedPosition
+      ? result.positions.find(p => p.coin === selectedPosition.coin)
+      : undefined;
+    if (selectedPosition && selectedResult) {
+      setPriceHistory(generatePriceHistory(
+        selectedPosition.currentPrice,
+        selectedResult.shockedPrice,
+        SIMULATION_STEPS,
+        Date.now(),
+        HOUR_MS,
+        { type: pathModelType, seed: pathSeed ?? createSeed(), calibration: pathCalibration }
+      ));
+      setReplayResult(null);
+      setOrderPath(null);
+      setSimulationState({
+        isSimulating: true,
+        simulatedPrice: selectedResult.shockedPrice,
+        priceChange: selectedResult.priceChange,
+        isLiquidated: selectedResult.isLiquidated,
+        simulatedPnl: calculatePnL(selectedPosition, selectedResult.shockedPrice),
+        liquidationPrice: selectedPosition.marginMode === 'cross' && result.crossEvaluation
+          ? result.crossEvaluation.liquidationPrices[selectedPosition.coin] ?? null
+          : selectedPosition.liquidationPrice,
+        scenarioPrices: Object.fromEntries(result.positions.map(p => [p.coin, p.shockedPrice])),
+      });
+    }
+
+    if (isMobile) {
+      setShowControls(false);
+    }
+  };
+
+  // Handle Monte Carlo run - deferred so the running state renders first
+  const handleMonteCarlo = (config: MonteCarloConfig) => {
+    setIsRunningMonteCarlo(true);
+    setTimeout(() => {
+      try {
+        setMonteCarloResult(runMonteCarlo(
+          livePositions,
+          crossPortfolio,
+          riskCandles,
+          config,
+          selectedPosition?.coin ?? null
+        ));
+      } finally {
+        setIsRunningMonteCarlo(false);
+      }
+    }, 0);
+  };
+
+  // Show one step of a replay on the chart and stats
+  const handleReplayStep = useCallback((step: number, replay: ReplayResult | null = replayResult) => {
+    if (!replay || !selectedPosition) return;
+
+    const candle = replay.candles[step];
+    setReplayStep(step);
+    setSimulationState({
+      isSimulating: true,
+      simulatedPrice: candle.close,
+      priceChange: ((candle.close - selectedPosition.currentPrice) / selectedPosition.currentPrice) * 100,
+      isLiquidated: replay.liquidationIndex !== null && step >= replay.liquidationIndex,
+      simulatedPnl: candle.pnl,
+      liquidationPrice: selectedPosition.liquidationPrice,
+    });
+  }, [replayResult, selectedPosition]);
+
+  const startReplay = (replay: ReplayResult | null) => {
+    if (!replay) return;
+    setPriceHistory([]);
+    setReplayResult(replay);
+    setOrderPath(null);
+    handleReplayStep(0, replay);
+    if (isMobile) {
+      setShowControls(false);
+    }
+  };
+
+  const replayOrderContext = { orders: selectedOrders, crossPortfolio, prices: livePriceVector, marginModel };
+
+  // Replay a window of the candles currently on the chart
+  const handleReplayWindow = (startIndex: number, endIndex: number) => {
+    if (!selectedPosition) return;
+    const sorted = [...candleData].sort((a, b) => a.time - b.time);
+    startReplay(replayPath(selectedPosition, sorted.slice(startIndex, endIndex + 1), 'Chart window', replayOrderContext));
+  };
+
+  // Replay the worst 24h move against the position in the last 90 days
+  const handleReplayWorst = async () => {
+    if (!selectedPosition) return;
+    setIsLoadingReplay(true);
+    try {
+      const candles = await client.fetchCandleData(
+        selectedPosition.coin,
+        REPLAY_SEARCH_CONFIG.interval,
+        REPLAY_SEARCH_CONFIG.hours
+      );
+      const sorted = [...candles].sort((a, b) => a.time - b.time);
+      const worst = findWorstWindow(sorted, selectedPosition.side, REPLAY_SEARCH_CONFIG.windowHours * 60 * 60 * 1000);
+      if (worst) {
+        startReplay(replayPath(
+          selectedPosition,
+          sorted.slice(worst.startIndex, worst.endIndex + 1),
+          `Worst 24h (${worst.move >= 0 ? '+' : ''}${worst.move.toFixed(1)}%)`,
+          replayOrderContext
+        ));
+      }
+    } catch (error) {
+      console.error('Failed to load replay candles:', error);
+    } finally {
+      setIsLoadingReplay(false);
+    }
+  };
+
+  const handleShockDriverChange = (driver: string) => {
+    // Betas are relative to the driver, so overrides no longer apply
+    setShockDriver(driver);
+    setBetaOverrides({});
+    setShockResult(null);
+  };
+
+  const handleBetaOverride = (coin: string, beta: number | null) => {
+    setBetaOverrides(prev => {
+      const next = { ...prev };
+      if (beta === null) {
+        delete next[coin];
+      } else {
+        next[coin] = beta;
+      }
+      return next;
+    });
+  };
+
+  // Play a crisis scenario's daily path for the selected position on the chart
+  const handleCrisisScenario = (scenarioId: string) => {
+    const scenario = CRISIS_SCENARIO_LIBRARY.scenarios.find(s => s.id === scenarioId);
+    const result = crisisResults[scenarioId];
+    if (!scenario || !result) return;
+
+    resetSimulation();
+    setActiveCrisisId(scenarioId);
+
+    const outcome = selectedPosition
+      ? result.positions.find(p => p.coin === selectedPosition.coin)
+      : undefined;
+    if (!selectedPosition || !outcome) return;
+
+    const { path } = resolveScenarioPath(scenario, selectedPosition.coin);
+    const start = Date.now();
+    const history = path.map((change, day) => ({
+      time: start + day * DAY_MS,
+      price: Math.max(calculateNewPrice(selectedPosition.currentPrice, change), 0),
+    }));
+    const finalPrice = history[history.length - 1].price;
+    const ordersOnPath = selectedOrders.length > 0
+      ? simulateOrdersOnPath(
+          selectedPosition,
+          selectedOrders,
+          history.map(p => p.price),
+          crossPortfolio,
+          livePriceVector,
+          marginModel
+        )
+      : null;
+
+    setPriceHistory(history);
+    setOrderPath(ordersOnPath);
+    setSimulationState({
+      isSimulating: true,
+      simulatedPrice: finalPrice,
+      priceChange: outcome.finalChange,
+      isLiquidated: ordersOnPath ? ordersOnPath.liquidationStep !== null : outcome.liquidationStep !== null,
+      simulatedPnl: ordersOnPath ? ordersOnPath.finalPnl : calculatePnL(selectedPosition, finalPrice),
+      liquidationPrice: ordersOnPath ? ordersOnPath.finalLiquidationPrice : selectedPosition.liquidationPrice,
+      scenarioPrices: Object.fromEntries(livePositions.flatMap(pos => {
+        const legOutcome = result.positions.find(p => p.coin === pos.coin);
+        return legOutcome ? [[pos.coin, calculateNewPrice(pos.currentPrice, legOutcome.finalChange)]] : [];
+      })),
     });
 
     if (isMobile) {
@@ -252,6 +821,128 @@ function App() {
     }
   };
 
+  // Hold every position for a period and accrue funding into PnL and margin
+  const handleFundingHold = (config: FundingHoldConfig) => {
+    if (livePositions.length === 0) return;
+
+    const result = simulateFundingHold(
+      livePositions,
+      crossPortfolio,
+      config,
+      fundingHistory,
+      predictedFunding
+    );
+    resetSimulation();
+    setFundingResult(result);
+
+    // Prices stay flat; the chart shows the holding period and the stats the funded PnL
+    const selectedResult = selectedPosition
+      ? result.positions.find(p => p.coin === selectedPosition.coin)
+      : undefined;
+    if (selectedPosition && selectedResult) {
+      const start = Date.now();
+      const stepHours = Math.max(1, Math.ceil(config.holdingHours / 60));
+      const history: PriceData[] = [];
+      for (let hour = 0; hour <= config.holdingHours; hour += stepHours) {
+        history.push({ time: start + hour * HOUR_MS, price: selectedPosition.currentPrice });
+      }
+
+      setPriceHistory(history);
+      setSimulationState({
+        isSimulating: true,
+        simulatedPrice: selectedPosition.currentPrice,
+        priceChange: 0,
+        isLiquidated: selectedResult.liquidationHour !== null,
+        simulatedPnl: selectedResult.pnlWithFunding,
+        liquidationPrice: selectedResult.liquidationPrice,
+      });
+    }
+
+    if (isMobile) {
+      setShowControls(false);
+    }
+  };
+
+  const resetFundingHold = () => {
+    setFundingResult(null);
+    resetSimulation();
+  };
+
+  const resetCorrelatedShock = () => {
+    setShockResult(null);
+    resetSimulation();
+  };
+
+  // Largest position in a coin the account can add and still survive the move.
+  // Sigma moves are sized from the coin's hourly volatility scaled to a day.
+  const handleSafeSize = async (config: SafeSizeConfig) => {
+    if (!crossPortfolio || !accountData) return;
+    setSafeSizeError(null);
+    const price = livePriceVector[config.coin] ?? toPriceVector(livePrices)[config.coin] ??
+      marginModel?.[config.coin]?.markPrice;
+    if (!price) {
+      setSafeSizeResult(null);
+      setSafeSizeError(`No price for ${config.coin}`);
+      return;
+    }
+
+    let adverseMove = config.value;
+    let dailyVolatility: number | null = null;
+    if (config.mode === 'sigma') {
+      setIsSolvingSafeSize(true);
+      try {
+        const candles = riskCandles[config.coin] ?? await client.fetchCandleData(
+          config.coin,
+          RISK_HISTORY_CONFIG.interval,
+          RISK_HISTORY_CONFIG.hours
+        );
+        const hourlyVolatility = calculateHourlyVolatility(candles);
+        if (hourlyVolatility === null) {
+          setSafeSizeResult(null);
+          setSafeSizeError(`Not enough candle history for ${config.coin} volatility`);
+          return;
+        }
+        dailyVolatility = hourlyVolatility * Math.sqrt(24);
+        adverseMove = sigmaAdverseMove(dailyVolatility, config.value, config.side);
+      } catch (error) {
+        console.error('Failed to load volatility history:', error);
+        setSafeSizeResult(null);
+        setSafeSizeError(error instanceof Error ? error.message : 'Failed to load volatility history');
+        return;
+      } finally {
+        setIsSolvingSafeSize(false);
+      }
+    }
+
+    // Planned trades already claim part of the free collateral
+    const plannedMargin = hypotheticalPositions.reduce((total, pos) => total + calculateAllocatedMargin(pos), 0);
+    const freeCollateral = (crossEquity ?? 0) -
+      parseFloat(accountData.crossMarginSummary.totalMarginUsed) - plannedMargin;
+
+    setSafeSizeResult(calculateMaxSafeSize(
+      crossPortfolio,
+      config.coin,
+      config.side,
+      price,
+      adverseMove,
+      freeCollateral,
+      marginModel,
+      livePriceVector,
+      dailyVolatility
+    ));
+  };
+
+  // Drop a planned trade; deselect it if it was being analyzed
+  const handleRemoveHypothetical = (coin: string) => {
+    const trade = hypotheticalTrades.find(t => t.coin === coin);
+    if (!trade) return;
+    removeHypotheticalTrade(trade.id);
+    if (selectedPosition?.coin === coin) {
+      setSelectedPosition(null);
+      resetSimulation();
+    }
+  };
+
   // Reset simulation
   const resetSimulation = () => {
     setSimulationState({
@@ -260,10 +951,107 @@ function App() {
       priceChange: 0,
       isLiquidated: false,
       simulatedPnl: null,
+      liquidationPrice: null,
     });
     setPriceHistory([]);
+    setReplayResult(null);
+    setReplayStep(0);
+    setActiveCrisisId(null);
+    setOrderPath(null);
   };
 
+  const monteCarloPanel = (
+    <MonteCarloPanel
+      position={selectedPosition}
+      canRunPortfolio={livePositions.length > 0}
+      isLoadingHistory={isLoadingRiskHistory}
+      isRunning={isRunningMonteCarlo}
+      onRun={handleMonteCarlo}
+      result={monteCarloResult}
+    />
+  );
+
+  const historicalReplayPanel = (
+    <HistoricalReplayPanel
+      candles={candleData}
+      replay={replayResult}
+      step={replayStep}
+      onStepChange={handleReplayStep}
+      onReplayWindow={handleReplayWindow}
+      onReplayWorst={handleReplayWorst}
+      isLoadingWorst={isLoadingReplay}
+      onReset={resetSimulation}
+    />
+  );
+
+  const fundingPanel = (
+    <FundingPanel
+      positions={livePositions}
+      isLoadingRates={isLoadingFunding}
+      onRun={handleFundingHold}
+      onReset={resetFundingHold}
+      result={fundingResult}
+    />
+  );
+
+  const hypotheticalTradeBuilder = savedAddress && (
+    <HypotheticalTradeBuilder
+      trades={hypotheticalTrades}
+      heldCoins={bookPositions.map(p => p.coin)}
+      marketPrices={toPriceVector(livePrices)}
+      marginModel={marginModel}
+      onAdd={addHypotheticalTrade}
+      onRemove={(id) => {
+        const trade = hypotheticalTrades.find(t => t.id === id);
+        if (trade) handleRemoveHypothetical(trade.coin);
+      }}
+    />
+  );
+
+  const safeSizePanel = savedAddress && (
+    <SafeSizePanel
+      coins={shockDriverOptions}
+      canRun={crossPortfolio !== null}
+      isRunning={isSolvingSafeSize}
+      onRun={handleSafeSize}
+      result={safeSizeResult}
+      error={safeSizeError}
+    />
+  );
+
+  const liquidationHeatmapPanel = (
+    <LiquidationHeatmapPanel
+      positions={livePositions}
+      crossPortfolio={crossPortfolio}
+      prices={livePriceVector}
+    />
+  );
+
+  const crisisScenarioPanel = (
+    <CrisisScenarioPanel
+      library={CRISIS_SCENARIO_LIBRARY}
+      results={crisisResults}
+      activeScenarioId={activeCrisisId}
+      onSelect={handleCrisisScenario}
+      onReset={resetSimulation}
+    />
+  );
+
+  const correlatedShockPanel = (
+    <CorrelatedShockPanel
+      positions={livePositions}
+      driver={shockDriver}
+      driverOptions={shockDriverOptions}
+      onDriverChange={handleShockDriverChange}
+      betas={shockBetas}
+      onBetaOverride={handleBetaOverride}
+      isLoadingBetas={isLoadingRiskHistory}
+      onRun={handleCorrelatedShock}
+      onReset={resetCorrelatedShock}
+      result={shockResult}
+    />
+  );
+
   // Mobile Layout
   if (isMobile) {
     return (
@@ -280,12 +1068,16 @@ function App() {
                 savedAddress={savedAddress}
               />
             </div>
+            <RequestStatusBadge client={client} />
+            <EnvironmentSelector config={environmentConfig} onChange={handleEnvironmentChange} />
             {/* Portfolio Summary Icon */}
             <PortfolioSummary
               positions={livePositions}
+              spotBalances={spotBalances}
               accountValue={accountData?.marginSummary?.accountValue || null}
               withdrawable={accountData?.withdrawable || null}
               isConnected={wsConnected}
+              riskReport={portfolioRisk}
             />
           </div>
         </div>
@@ -377,6 +1169,8 @@ function App() {
                   position={selectedPosition}
                   simulationState={simulationState}
                   priceHistory={priceHistory}
+                  replay={replayResult}
+                  replayStep={replayStep}
                   candleData={candleData}
                   isLoadingCandles={isLoadingCandles}
                   selectedTimeframe={selectedTimeframe}
@@ -384,17 +1178,32 @@ function App() {
                 />
               </div>
 
+              {/* Monte Carlo */}
+              <div className="px-4 py-4">
+                {monteCarloPanel}
+              </div>
+
               {/* Stats Grid */}
               <div className="px-4 pb-4">
                 <PositionStats
                   position={selectedPosition}
                   simulationState={simulationState}
+                  crossEquity={crossEquity}
+                  replay={replayResult}
+                  replayStep={replayStep}
+                  impact={closeImpact}
+                  isLoadingImpact={isLoadingOrderBook}
+                  orderPath={orderPath}
+                  openOrderCount={selectedOrders.length}
+                  crossPortfolio={crossPortfolio}
+                  prices={livePriceVector}
+                  marginModel={marginModel}
                 />
               </div>
 
               {/* Trading Activity */}
               <div className="px-4 pb-5">
-                <TradingActivity address={savedAddress} />
+                <TradingActivity client={client} address={savedAddress} />
               </div>
             </>
           ) : (
@@ -475,9 +1284,18 @@ function App() {
                    style={{ maxHeight: 'calc(75vh - 100px)' }}>
                 <PositionList
                   positions={livePositions}
+                  spotBalances={spotBalances}
+                  crossEquity={crossEquity}
                   selectedPosition={selectedPosition}
                   onSelectPosition={handleSelectPosition}
+                  onRemoveHypothetical={handleRemoveHypothetical}
                 />
+                <div className="mt-4">
+                  {hypotheticalTradeBuilder}
+                </div>
+                <div className="mt-4">
+                  {safeSizePanel}
+                </div>
               </div>
             </div>
           </div>
@@ -497,7 +1315,37 @@ function App() {
                   onSimulate={handleSimulate}
                   isSimulating={simulationState.isSimulating}
                   onReset={resetSimulation}
+                  pathModel={pathModelType}
+                  onPathModelChange={setPathModelType}
+                  seed={pathSeed}
+                  onSeedChange={setPathSeed}
+                  isCalibrated={pathCalibration !== null}
                 />
+                {selectedPosition && (
+                  <div className="mt-4">
+                    <WhatIfEditor
+                      position={selectedPosition}
+                      crossPortfolio={crossPortfolio}
+                      prices={livePriceVector}
+                      marginModel={marginModel}
+                    />
+                  </div>
+                )}
+                <div className="mt-4">
+                  {crisisScenarioPanel}
+                </div>
+                <div className="mt-4">
+                  {fundingPanel}
+                </div>
+                <div className="mt-4">
+                  {correlatedShockPanel}
+                </div>
+                <div className="mt-4">
+                  {liquidationHeatmapPanel}
+                </div>
+                <div className="mt-4">
+                  {historicalReplayPanel}
+                </div>
               </div>
             </div>
           </div>
@@ -513,7 +1361,7 @@ function App() {
               <div className="drag-handle" onClick={() => setShowActivity(false)} />
               <div className="px-4 pb-8 overflow-y-auto hide-scrollbar"
                    style={{ maxHeight: 'calc(80vh - 20px)' }}>
-                <TradingActivity address={savedAddress} />
+                <TradingActivity client={client} address={savedAddress} />
               </div>
             </div>
           </div>
@@ -537,12 +1385,16 @@ function App() {
               savedAddress={savedAddress}
             />
           </div>
+          <RequestStatusBadge client={client} />
+          <EnvironmentSelector config={environmentConfig} onChange={handleEnvironmentChange} />
           {/* Portfolio Summary Icon */}
           <PortfolioSummary
             positions={livePositions}
+            spotBalances={spotBalances}
             accountValue={accountData?.marginSummary?.accountValue || null}
             withdrawable={accountData?.withdrawable || null}
             isConnected={wsConnected}
+            riskReport={portfolioRisk}
           />
         </div>
       </div>
@@ -553,22 +1405,35 @@ function App() {
         <div className="w-96 bg-gray-950/50 backdrop-blur-sm border-r border-emerald-900/20 overflow-y-auto">
           <PositionList
             positions={livePositions}
+            spotBalances={spotBalances}
+            crossEquity={crossEquity}
             selectedPosition={selectedPosition}
             onSelectPosition={handleSelectPosition}
+            onRemoveHypothetical={handleRemoveHypothetical}
           />
+
+          {/* Pre-trade planning */}
+          {savedAddress && (
+            <div className="p-4 border-t border-emerald-900/20">
+              {hypotheticalTradeBuilder}
+              <div className="mt-4">
+                {safeSizePanel}
+              </div>
+            </div>
+          )}
           
           {/* Trading Activity in Sidebar - Desktop */}
           {savedAddress && (
             <div className="p-4 border-t border-emerald-900/20">
-              <TradingActivity address={savedAddress} />
+              <TradingActivity client={client} address={savedAddress} />
             </div>
           )}
         </div>
 
         {/* Main Area */}
-        <div className="flex-1 overflow-hidden">
+        <div className="flex-1 overflow-y-auto">
           {selectedPosition ? (
-            <div className="h-full flex flex-col p-6 gap-6">
+            <div className="min-h-full flex flex-col p-6 gap-6">
               {/* Live indicator */}
               {wsConnected && (
                 <div className="flex items-center gap-2 text-sm">
@@ -582,23 +1447,60 @@ function App() {
                   position={selectedPosition}
                   simulationState={simulationState}
                   priceHistory={priceHistory}
+                  replay={replayResult}
+                  replayStep={replayStep}
                   candleData={candleData}
                   isLoadingCandles={isLoadingCandles}
                   selectedTimeframe={selectedTimeframe}
                   onTimeframeChange={setSelectedTimeframe}
                 />
               </div>
+              {monteCarloPanel}
               <div className="grid grid-cols-2 gap-6">
-                <SimulationControls
-                  onSimulate={handleSimulate}
-                  isSimulating={simulationState.isSimulating}
-                  onReset={resetSimulation}
-                />
+                <div className="space-y-6">
+                  <SimulationControls
+                    onSimulate={handleSimulate}
+                    isSimulating={simulationState.isSimulating}
+                    onReset={resetSimulation}
+                    pathModel={pathModelType}
+                    onPathModelChange={setPathModelType}
+                    seed={pathSeed}
+                    onSeedChange={setPathSeed}
+                    isCalibrated={pathCalibration !== null}
+                  />
+                  <WhatIfEditor
+                    position={selectedPosition}
+                    crossPortfolio={crossPortfolio}
+                    prices={livePriceVector}
+                    marginModel={marginModel}
+                  />
+                </div>
                 <PositionStats
                   position={selectedPosition}
                   simulationState={simulationState}
+                  crossEquity={crossEquity}
+                  replay={replayResult}
+                  replayStep={replayStep}
+                  impact={closeImpact}
+                  isLoadingImpact={isLoadingOrderBook}
+                  orderPath={orderPath}
+                  openOrderCount={selectedOrders.length}
+                  crossPortfolio={crossPortfolio}
+                  prices={livePriceVector}
+                  marginModel={marginModel}
                 />
               </div>
+              <div className="grid grid-cols-2 gap-6 items-start">
+                {historicalReplayPanel}
+                {correlatedShockPanel}
+              </div>
+              <div className="grid grid-cols-2 gap-6 items-start">
+                {crisisScenarioPanel}
+                {fundingPanel}
+              </div>
+              <div className="grid grid-cols-2 gap-6 items-start">
+                {liquidationHeatmapPanel}
+              </div>
             </div>
           ) : (
             <div className="flex items-center justify-center h-full">
@@ -612,7 +1514,7 @@ function App() {
                 </div>
                 <p className="text-2xl text-white mb-3 font-bold">No Position Selected</p>
                 <p className="text-gray-500 text-lg">
-                  {positions.length > 0
+                  {bookPositions.length > 0
                     ? 'Select a position from the sidebar to begin analysis'
                     : 'Enter your Hyperliquid address above to get started'}
                 </p>
@@ -11,11 +11,9 @@ export const AddressInput = ({ onFetch, onClear, isLoading, error, savedAddress
     setCanPaste(!!navigator.clipboard);
   }, []);
 
-  // Load saved address into input on mount
+  // Follow the saved address, which changes on mount and on environment switch
   useEffect(() => {
-    if (savedAddress) {
-      setAddress(savedAddress);
-    }
+    setAddress(savedAddress ?? '');
   }, [savedAddress]);
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { CorrelatedShockPanelProps } from '../types';
+import { formatCurrency, formatPercentage } from '../services/calculations';
+
+const driverPresets = [-40, -25, -10, 10, 25];
+
+export const CorrelatedShockPanel = ({
+  positions,
+  driver,
+  driverOptions,
+  onDriverChange,
+  betas,
+  onBetaOverride,
+  isLoadingBetas,
+  onRun,
+  onReset,
+  result,
+}: CorrelatedShockPanelProps) => {
+  const [shockPercent, setShockPercent] = useState('');
+
+  const handleRun = (value: number) => {
+    if (!isNaN(value) && value !== 0) {
+      onRun(value);
+    }
+  };
+
+  // Beta override input: empty restores the estimate
+  const handleBetaChange = (coin: string, value: string) => {
+    if (value.trim() === '') {
+      onBetaOverride(coin, null);
+      return;
+    }
+    const beta = parseFloat(value);
+    if (!isNaN(beta)) {
+      onBetaOverride(coin, beta);
+    }
+  };
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Correlated Shock</h3>
+        {result && (
+          <button onClick={onReset} className="btn-glass text-sm px-4 py-2">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Driver selection */}
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Driver</span>
+        <select
+          value={driver}
+          onChange={(e) => onDriverChange(e.target.value)}
+          className="input-field flex-1 text-sm"
+        >
+          {driverOptions.map((coin) => (
+            <option key={coin} value={coin}>{coin}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Driver move */}
+      <div className="space-y-2.5">
+        <div className="flex gap-2">
+          {driverPresets.map((value) => (
+            <button
+              key={value}
+              onClick={() => handleRun(value)}
+              disabled={isLoadingBetas}
+              className={`flex-1 py-2 px-2 rounded-lg text-xs font-bold mono border transition-all duration-200
+                        disabled:opacity-50 disabled:cursor-not-allowed active:scale-95 ${
+                value < 0
+                  ? 'bg-red-950/30 text-red-400 border-red-900/40 hover:bg-red-900/20'
+                  : 'bg-emerald-950/30 text-emerald-400 border-emerald-900/40 hover:bg-emerald-900/20'
+              }`}
+            >
+              {value > 0 ? '+' : ''}{value}%
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2.5">
+          <div className="relative flex-1">
+            <input
+              type="number"
+              value={shockPercent}
+              onChange={(e) => setShockPercent(e.target.value)}
+              placeholder={`${driver} % move`}
+              className="input-field w-full pr-10 text-sm"
+            />
+            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-600 font-semibold">
+              %
+            </span>
+          </div>
+          <button
+            onClick={() => handleRun(parseFloat(shockPercent))}
+            disabled={!shockPercent || isLoadingBetas}
+            className="btn-primary px-6 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Shock
+          </button>
+        </div>
+      </div>
+
+      {/* Betas */}
+      <div>
+        <p className="text-xs text-gray-500 uppercase tracking-wider mb-2 font-semibold">
+          Beta to {driver} {isLoadingBetas && <span className="normal-case text-gray-600">(estimating...)</span>}
+        </p>
+        <div className="space-y-1.5">
+          {positions.map((pos) => {
+            const estimate = betas[pos.coin];
+            return (
+              <div key={pos.coin} className="flex items-center justify-between text-xs">
+                <span className="text-gray-300 font-medium w-16">{pos.coin}</span>
+                <span className="text-gray-500 flex-1">
+                  {estimate?.source === 'default'
+                    ? 'no history, assumed'
+                    : estimate?.correlation != null
+                      ? `corr ${estimate.correlation.toFixed(2)}`
+                      : ''}
+                </span>
+                <input
+                  type="number"
+                  step="0.05"
+                  disabled={pos.coin === driver}
+                  defaultValue={estimate ? estimate.beta.toFixed(2) : ''}
+                  key={`${pos.coin}-${driver}-${estimate?.beta.toFixed(2)}`}
+                  onBlur={(e) => handleBetaChange(pos.coin, e.target.value)}
+                  className={`input-field w-20 text-xs text-right mono py-1 ${
+                    estimate?.source === 'override' ? 'text-purple-400' : ''
+                  }`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Results */}
+      {result && (
+        <div className="border-t border-gray-800/50 pt-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="stat-card">
+              <p className="stat-label text-xs">Portfolio P&L</p>
+              <p className={`text-base font-bold mono mt-1 ${
+                result.totalPnlChange >= 0 ? 'text-emerald-400' : 'text-red-400'
+              }`}>
+                {result.totalPnlChange >= 0 ? '+' : ''}{formatCurrency(result.totalPnlChange)}
+              </p>
+              {result.spotValueChange !== 0 && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  incl. spot {result.spotValueChange >= 0 ? '+' : ''}{formatCurrency(result.spotValueChange)}
+                </p>
+              )}
+            </div>
+            <div className="stat-card">
+              <p className="stat-label text-xs">Cross Equity / Maint.</p>
+              <p className={`text-base font-bold mono mt-1 ${
+                result.crossEvaluation?.isLiquidated ? 'text-red-400' : 'text-gray-100'
+              }`}>
+                {result.crossEvaluation
+                  ? `${formatCurrency(result.crossEvaluation.equity)} / ${formatCurrency(result.crossEvaluation.maintenanceMargin)}`
+                  : '—'}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            {result.positions.map((pos) => (
+              <div
+                key={pos.coin}
+                className={`flex items-center justify-between py-1.5 px-2 rounded text-xs ${
+                  pos.isLiquidated ? 'bg-red-950/40 border border-red-900/40' : 'bg-gray-800/30'
+                }`}
+              >
+                <span className="text-white font-medium w-16">{pos.coin}</span>
+                <span className="text-gray-400 mono flex-1">{formatPercentage(pos.priceChange)}</span>
+                <span className={`mono font-medium ${pos.pnlChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {pos.pnlChange >= 0 ? '+' : ''}{formatCurrency(pos.pnlChange)}
+                </span>
+                {pos.isLiquidated && (
+                  <span className="ml-2 text-red-400 font-bold">LIQ</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
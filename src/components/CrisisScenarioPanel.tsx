@@ -0,0 +1,134 @@
+import { CrisisScenarioPanelProps } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+const formatDate = (date: string): string => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+export const CrisisScenarioPanel = ({
+  library,
+  results,
+  activeScenarioId,
+  onSelect,
+  onReset,
+}: CrisisScenarioPanelProps) => {
+  const activeScenario = library.scenarios.find((scenario) => scenario.id === activeScenarioId) ?? null;
+  const activeResult = activeScenarioId ? results[activeScenarioId] ?? null : null;
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Historical Crises</h3>
+        {activeScenario ? (
+          <button onClick={onReset} className="btn-glass text-sm px-4 py-2">
+            Reset
+          </button>
+        ) : (
+          <span className="text-xs text-gray-500 mono">v{library.version}</span>
+        )}
+      </div>
+
+      {/* Scenario list with the portfolio outcome of each */}
+      <div className="space-y-2">
+        {library.scenarios.map((scenario) => {
+          const result = results[scenario.id];
+          const isActive = scenario.id === activeScenarioId;
+          const accountLiquidated = result?.accountLiquidationStep !== null && result?.accountLiquidationStep !== undefined;
+          const anyLiquidated = (result?.liquidatedCoins.length ?? 0) > 0;
+
+          return (
+            <button
+              key={scenario.id}
+              onClick={() => onSelect(scenario.id)}
+              disabled={!result}
+              className={`w-full text-left p-3 rounded-xl border transition-all duration-200 disabled:opacity-50 ${
+                isActive
+                  ? 'bg-purple-950/30 border-purple-800/50'
+                  : 'bg-gray-900/40 border-gray-800/50 hover:border-gray-700'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">{scenario.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(scenario.startDate)} – {formatDate(scenario.endDate)}
+                  </div>
+                </div>
+                {result && (
+                  <div className="text-right flex-shrink-0">
+                    <div className={`text-sm font-bold mono ${result.totalPnlChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatCurrency(result.totalPnlChange)}
+                    </div>
+                    <div className={`text-xs font-semibold ${anyLiquidated ? 'text-red-400' : 'text-emerald-400'}`}>
+                      {accountLiquidated
+                        ? `Account liq. day ${result.accountLiquidationStep}`
+                        : anyLiquidated
+                          ? `${result.liquidatedCoins.length} liquidated`
+                          : 'Survives'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Breakdown of the selected scenario */}
+      {activeScenario && activeResult && (
+        <div className="border-t border-gray-800/50 pt-4 space-y-3">
+          <p className="text-xs text-gray-400">{activeScenario.description}</p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="stat-card">
+              <p className="stat-label text-xs">Final P&L</p>
+              <p className={`text-sm font-bold mono mt-1 ${activeResult.totalPnlChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatCurrency(activeResult.totalPnlChange)}
+              </p>
+              {activeResult.spotValueChange !== 0 && (
+                <p className="text-xs text-gray-500 mt-0.5">incl. spot {formatCurrency(activeResult.spotValueChange)}</p>
+              )}
+            </div>
+            <div className="stat-card">
+              <p className="stat-label text-xs">Worst Day P&L</p>
+              <p className="text-sm font-bold mono mt-1 text-red-400">
+                {formatCurrency(activeResult.worstPnlChange)}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            {activeResult.positions.map((outcome) => (
+              <div key={outcome.coin} className="flex items-center justify-between text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-semibold">{outcome.coin}</span>
+                  {outcome.isFallback && (
+                    <span className="text-gray-500" title="No path for this coin in the scenario">
+                      via {outcome.proxy}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 mono">
+                  <span className={outcome.finalChange >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                    {outcome.finalChange > 0 ? '+' : ''}{outcome.finalChange.toFixed(1)}%
+                  </span>
+                  <span className={outcome.pnlChange >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                    {formatCurrency(outcome.pnlChange)}
+                  </span>
+                  {outcome.liquidationStep !== null && (
+                    <span className="text-red-400 font-bold">LIQ d{outcome.liquidationStep}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
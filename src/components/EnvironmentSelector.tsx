@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { EnvironmentSelectorProps, HyperliquidEnvironment } from '../types';
+import { ENVIRONMENT_LABELS, buildEnvironmentConfig } from '../services/environment';
+
+const environments: HyperliquidEnvironment[] = ['mainnet', 'testnet', 'custom'];
+
+export const EnvironmentSelector = ({ config, onChange }: EnvironmentSelectorProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [environment, setEnvironment] = useState<HyperliquidEnvironment>(config.environment);
+  const [customUrl, setCustomUrl] = useState(config.environment === 'custom' ? config.apiUrl : '');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the active environment each time the popup opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setEnvironment(config.environment);
+    setCustomUrl(config.environment === 'custom' ? config.apiUrl : '');
+    setError(null);
+  }, [isOpen, config]);
+
+  const handleApply = () => {
+    const next = buildEnvironmentConfig(environment, customUrl);
+    if (!next) {
+      setError('Enter a full http(s) URL, e.g. http://localhost:3001');
+      return;
+    }
+    if (next.environment !== config.environment || next.apiUrl !== config.apiUrl) {
+      onChange(next);
+    }
+    setIsOpen(false);
+  };
+
+  const isMainnet = config.environment === 'mainnet';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-10 px-3 rounded-md text-xs font-bold uppercase tracking-wider border transition-all ${
+          isMainnet
+            ? 'bg-gray-800/80 text-gray-400 border-gray-700/60 hover:bg-gray-700 hover:text-white'
+            : 'bg-amber-950/40 text-amber-400 border-amber-800/50 hover:bg-amber-900/40'
+        }`}
+        title={config.apiUrl}
+        aria-label="Network"
+      >
+        {ENVIRONMENT_LABELS[config.environment]}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute right-0 top-12 z-50 w-72 bg-gray-900 border border-emerald-900/30
+                          rounded-xl shadow-2xl p-4 space-y-3 animate-fade-in">
+            <h3 className="text-white font-bold text-sm uppercase tracking-wider">Network</h3>
+
+            <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+              {environments.map((env) => (
+                <button
+                  key={env}
+                  onClick={() => {
+                    setEnvironment(env);
+                    setError(null);
+                  }}
+                  className={`flex-1 px-2 py-1 text-xs font-bold rounded transition-all ${
+                    environment === env ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+                  }`}
+                >
+                  {ENVIRONMENT_LABELS[env]}
+                </button>
+              ))}
+            </div>
+
+            {environment === 'custom' && (
+              <input
+                type="text"
+                value={customUrl}
+                onChange={(e) => {
+                  setCustomUrl(e.target.value);
+                  setError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApply();
+                }}
+                placeholder="http://localhost:3001"
+                className="input-field w-full text-xs"
+              />
+            )}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <p className="text-xs text-gray-600">
+              Each network keeps its own saved address and planned trades.
+            </p>
+
+            <button onClick={handleApply} className="btn-primary w-full text-sm py-2 font-semibold">
+              Apply
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { FundingPanelProps, FundingRateSource } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+const holdingPeriods = [
+  { label: '1D', hours: 24 },
+  { label: '1W', hours: 168 },
+  { label: '1M', hours: 720 },
+  { label: '3M', hours: 2160 },
+];
+
+const rateSources: { label: string; value: FundingRateSource }[] = [
+  { label: 'Predicted', value: 'predicted' },
+  { label: '7D Avg', value: 'historical' },
+  { label: 'Spike', value: 'spike' },
+];
+
+const spikePresets = [100, 300, 1000, -300];
+
+// Hours as a short duration label
+const formatHours = (hours: number): string => {
+  if (hours >= 48) return `${(hours / 24).toFixed(hours % 24 === 0 ? 0 : 1)}d`;
+  return `${hours}h`;
+};
+
+export const FundingPanel = ({
+  positions,
+  isLoadingRates,
+  onRun,
+  onReset,
+  result,
+}: FundingPanelProps) => {
+  const [holdingHours, setHoldingHours] = useState(168);
+  const [source, setSource] = useState<FundingRateSource>('predicted');
+  const [spikeAnnualized, setSpikeAnnualized] = useState('300');
+
+  const spikeValue = parseFloat(spikeAnnualized);
+  const canRun = positions.length > 0 && !isLoadingRates &&
+    (source !== 'spike' || !isNaN(spikeValue));
+
+  const toggleClass = (active: boolean) =>
+    `px-2.5 py-1 text-xs font-bold rounded transition-all ${
+      active ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+    }`;
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Funding Over Time</h3>
+        {result && (
+          <button onClick={onReset} className="btn-glass text-sm px-4 py-2">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {holdingPeriods.map((period) => (
+            <button
+              key={period.label}
+              onClick={() => setHoldingHours(period.hours)}
+              className={toggleClass(holdingHours === period.hours)}
+            >
+              {period.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {rateSources.map((rateSource) => (
+            <button
+              key={rateSource.value}
+              onClick={() => setSource(rateSource.value)}
+              className={toggleClass(source === rateSource.value)}
+            >
+              {rateSource.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onRun({ holdingHours, source, spikeAnnualized: spikeValue })}
+          disabled={!canRun}
+          className="btn-primary px-5 py-1.5 text-sm font-semibold ml-auto disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoadingRates ? 'Loading...' : 'Run'}
+        </button>
+      </div>
+
+      {/* Funding spike level */}
+      {source === 'spike' && (
+        <div className="flex items-center gap-2">
+          {spikePresets.map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpikeAnnualized(String(value))}
+              className={`flex-1 py-1.5 rounded-lg text-xs font-bold mono border transition-all duration-200 ${
+                value > 0
+                  ? 'bg-red-950/30 text-red-400 border-red-900/40 hover:bg-red-900/20'
+                  : 'bg-emerald-950/30 text-emerald-400 border-emerald-900/40 hover:bg-emerald-900/20'
+              }`}
+            >
+              {value > 0 ? '+' : ''}{value}%
+            </button>
+          ))}
+          <div className="relative w-28">
+            <input
+              type="number"
+              value={spikeAnnualized}
+              onChange={(e) => setSpikeAnnualized(e.target.value)}
+              className="input-field w-full pr-12 text-sm"
+            />
+            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-600 text-xs font-semibold">
+              APR
+            </span>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <>
+          {/* Headline numbers */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="stat-card">
+              <p className="stat-label text-xs">Funding over {formatHours(result.config.holdingHours)}</p>
+              <p className={`text-sm font-bold mono mt-1 ${result.totalFundingPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatCurrency(result.totalFundingPnl)}
+              </p>
+            </div>
+            <div className="stat-card">
+              <p className="stat-label text-xs">Account</p>
+              <p className={`text-sm font-bold mt-1 ${result.liquidatedCoins.length > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                {result.accountLiquidationHour !== null
+                  ? `Liquidated after ${formatHours(result.accountLiquidationHour)}`
+                  : result.liquidatedCoins.length > 0
+                    ? `${result.liquidatedCoins.length} liquidated`
+                    : 'Survives'}
+              </p>
+            </div>
+          </div>
+
+          {/* Cross equity bleeding toward maintenance */}
+          {result.equityPath.length > 1 && (
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider mb-2 font-semibold">
+                Cross Equity vs Maintenance
+              </p>
+              <ResponsiveContainer width="100%" height={150}>
+                <LineChart data={result.equityPath}>
+                  <XAxis
+                    dataKey="hour"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatHours}
+                    tick={{ fontSize: 10, fill: '#6B7280' }}
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value: number) => formatCurrency(value).replace(/\.\d+$/, '')}
+                    tick={{ fontSize: 10, fill: '#6B7280' }}
+                    width={70}
+                  />
+                  <Tooltip
+                    contentStyle={{ background: '#111827', border: '1px solid #374151', fontSize: 11 }}
+                    labelFormatter={(hour: number) => formatHours(hour)}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Line dataKey="equity" stroke="#A855F7" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line
+                    dataKey="maintenanceMargin"
+                    stroke="#EF4444"
+                    strokeDasharray="4 4"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Per-position funding */}
+          <div className="space-y-1.5">
+            {result.positions.map((outcome) => (
+              <div key={outcome.coin} className="flex items-center justify-between text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-semibold">{outcome.coin}</span>
+                  <span className="text-gray-500 mono">
+                    {outcome.annualizedRate >= 0 ? '+' : ''}{outcome.annualizedRate.toFixed(1)}% APR
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 mono">
+                  <span className={outcome.fundingPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                    {formatCurrency(outcome.fundingPnl)}
+                  </span>
+                  {outcome.liquidationHour !== null ? (
+                    <span className="text-red-400 font-bold">LIQ {formatHours(outcome.liquidationHour)}</span>
+                  ) : (
+                    <span className="text-gray-400">
+                      Liq {outcome.liquidationPrice ? formatCurrency(outcome.liquidationPrice) : '—'}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
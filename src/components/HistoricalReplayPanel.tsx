@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { HistoricalReplayPanelProps } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+// Delay between candles while playing
+const PLAYBACK_INTERVAL_MS = 150;
+
+const formatCandleTime = (time: number): string => {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export const HistoricalReplayPanel = ({
+  candles,
+  replay,
+  step,
+  onStepChange,
+  onReplayWindow,
+  onReplayWorst,
+  isLoadingWorst,
+  onReset,
+}: HistoricalReplayPanelProps) => {
+  const [startIndex, setStartIndex] = useState(0);
+  const [endIndex, setEndIndex] = useState(Math.max(candles.length - 1, 0));
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const sortedCandles = [...candles].sort((a, b) => a.time - b.time);
+  const lastIndex = Math.max(sortedCandles.length - 1, 0);
+
+  // Keep the window inside the loaded candles when they change
+  useEffect(() => {
+    setStartIndex(0);
+    setEndIndex(Math.max(candles.length - 1, 0));
+  }, [candles]);
+
+  // Advance one candle at a time while playing
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+    if (step >= replay.candles.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onStepChange(step + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, replay, step, onStepChange]);
+
+  const current = replay?.candles[step] ?? null;
+  const liquidated = replay?.liquidationIndex !== null && replay?.liquidationIndex !== undefined &&
+    step >= replay.liquidationIndex;
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Historical Replay</h3>
+        {replay && (
+          <button
+            onClick={() => {
+              setIsPlaying(false);
+              onReset();
+            }}
+            className="btn-glass text-sm px-4 py-2"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Window selection */}
+      <div className="space-y-2">
+        <button
+          onClick={onReplayWorst}
+          disabled={isLoadingWorst}
+          className="w-full py-2.5 rounded-xl text-sm font-semibold border btn-crash-severe disabled:opacity-50"
+        >
+          {isLoadingWorst ? 'Searching 90 days...' : 'Worst 24h move (last 90 days)'}
+        </button>
+
+        {sortedCandles.length > 1 && (
+          <div className="space-y-1.5 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500 w-10">From</span>
+              <input
+                type="range"
+                min={0}
+                max={lastIndex}
+                value={startIndex}
+                onChange={(e) => setStartIndex(Math.min(parseInt(e.target.value), endIndex - 1))}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="text-gray-400 mono w-28 text-right">
+                {formatCandleTime(sortedCandles[startIndex]?.time ?? 0)}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500 w-10">To</span>
+              <input
+                type="range"
+                min={0}
+                max={lastIndex}
+                value={endIndex}
+                onChange={(e) => setEndIndex(Math.max(parseInt(e.target.value), startIndex + 1))}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="text-gray-400 mono w-28 text-right">
+                {formatCandleTime(sortedCandles[endIndex]?.time ?? 0)}
+              </span>
+            </div>
+            <button
+              onClick={() => onReplayWindow(startIndex, endIndex)}
+              className="btn-primary w-full py-2 text-sm font-semibold"
+            >
+              Replay chart window
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Playback */}
+      {replay && current && (
+        <div className="border-t border-gray-800/50 pt-4 space-y-3">
+          <div className="text-xs text-gray-500">
+            {replay.label}: {formatCandleTime(replay.windowStart)} – {formatCandleTime(replay.windowEnd)}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                if (step >= replay.candles.length - 1) onStepChange(0);
+                setIsPlaying(!isPlaying);
+              }}
+              className="btn-glass text-xs px-3 py-1.5"
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={replay.candles.length - 1}
+              value={step}
+              onChange={(e) => {
+                setIsPlaying(false);
+                onStepChange(parseInt(e.target.value));
+              }}
+              className="flex-1 accent-purple-500"
+            />
+            <span className="text-xs text-gray-400 mono">
+              {step + 1}/{replay.candles.length}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <div className="text-gray-500 mb-0.5">Candle</div>
+              <div className="text-gray-300 mono">{formatCandleTime(current.sourceTime)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500 mb-0.5">Low / High</div>
+              <div className="text-gray-300 mono">
+                {formatCurrency(current.low)} / {formatCurrency(current.high)}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-gray-500 mb-0.5">P&L</div>
+              <div className={`mono font-bold ${current.pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatCurrency(current.pnl)}
+              </div>
+            </div>
+          </div>
+
+          {replay.liquidationIndex !== null ? (
+            <div className={`p-2.5 rounded-lg border text-xs ${
+              liquidated ? 'bg-red-950/40 border-red-900/50 text-red-400' : 'bg-gray-900/50 border-gray-800 text-gray-400'
+            }`}>
+              Liquidated on candle {replay.liquidationIndex + 1} ({formatCandleTime(replay.candles[replay.liquidationIndex].sourceTime)})
+              {' '}— intrabar {replay.side === 'long' ? 'low' : 'high'} crossed the liquidation price
+            </div>
+          ) : (
+            <div className="p-2.5 rounded-lg border bg-emerald-950/30 border-emerald-900/40 text-emerald-400 text-xs">
+              Survives this path — worst P&L {formatCurrency(replay.worstPnl)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
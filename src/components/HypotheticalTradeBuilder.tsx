@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { HypotheticalTradeBuilderProps, MarginMode } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+export const HypotheticalTradeBuilder = ({
+  trades,
+  heldCoins,
+  marketPrices,
+  marginModel,
+  onAdd,
+  onRemove,
+}: HypotheticalTradeBuilderProps) => {
+  const [coin, setCoin] = useState('');
+  const [side, setSide] = useState<'long' | 'short'>('long');
+  const [size, setSize] = useState('');
+  const [leverage, setLeverage] = useState('5');
+  const [entryPrice, setEntryPrice] = useState('');
+  const [marginMode, setMarginMode] = useState<MarginMode>('cross');
+
+  const normalizedCoin = coin.trim().toUpperCase();
+  const marketPrice = marketPrices[normalizedCoin] ?? marginModel?.[normalizedCoin]?.markPrice ?? null;
+  const maxLeverage = marginModel?.[normalizedCoin]?.maxLeverage ?? null;
+  const onlyIsolated = marginModel?.[normalizedCoin]?.onlyIsolated ?? false;
+
+  const parsedSize = parseFloat(size);
+  const parsedLeverage = parseFloat(leverage);
+  const parsedEntry = parseFloat(entryPrice) || marketPrice || NaN;
+
+  // One position per coin, like the exchange; existing ones go through the what-if editor
+  const validationError = (() => {
+    if (!normalizedCoin) return null;
+    if (heldCoins.includes(normalizedCoin)) return `${normalizedCoin} is already in the book`;
+    if (marginModel && !marginModel[normalizedCoin]) return `${normalizedCoin} is not a listed perp`;
+    if (maxLeverage !== null && parsedLeverage > maxLeverage) return `Max leverage for ${normalizedCoin} is ${maxLeverage}x`;
+    return null;
+  })();
+
+  const canAdd = !!normalizedCoin && !validationError &&
+    parsedSize > 0 && parsedLeverage > 0 && parsedEntry > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      coin: normalizedCoin,
+      side,
+      size: parsedSize,
+      leverage: parsedLeverage,
+      entryPrice: parsedEntry,
+      marginMode: onlyIsolated ? 'isolated' : marginMode,
+    });
+    setCoin('');
+    setSize('');
+    setEntryPrice('');
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 px-2.5 py-1 text-xs font-bold rounded transition-all ${
+      active ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+    }`;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Plan a Trade</h3>
+        <span className="text-xs text-gray-500">Pre-trade check</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={coin}
+          onChange={(e) => setCoin(e.target.value)}
+          placeholder="Coin (e.g. SOL)"
+          className="input-field w-full text-sm uppercase"
+        />
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          <button onClick={() => setSide('long')} className={toggleClass(side === 'long')}>Long</button>
+          <button onClick={() => setSide('short')} className={toggleClass(side === 'short')}>Short</button>
+        </div>
+        <input
+          type="number"
+          value={size}
+          onChange={(e) => setSize(e.target.value)}
+          placeholder="Size"
+          className="input-field w-full text-sm"
+        />
+        <input
+          type="number"
+          value={entryPrice}
+          onChange={(e) => setEntryPrice(e.target.value)}
+          placeholder={marketPrice ? `@ ${marketPrice}` : 'Entry price'}
+          className="input-field w-full text-sm"
+        />
+        <input
+          type="number"
+          value={leverage}
+          onChange={(e) => setLeverage(e.target.value)}
+          placeholder={maxLeverage ? `Leverage (max ${maxLeverage}x)` : 'Leverage'}
+          className="input-field w-full text-sm"
+        />
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          <button
+            onClick={() => setMarginMode('cross')}
+            disabled={onlyIsolated}
+            className={`${toggleClass(marginMode === 'cross' && !onlyIsolated)} disabled:opacity-40`}
+          >
+            Cross
+          </button>
+          <button
+            onClick={() => setMarginMode('isolated')}
+            className={toggleClass(marginMode === 'isolated' || onlyIsolated)}
+          >
+            Isolated
+          </button>
+        </div>
+      </div>
+
+      {validationError && <p className="text-xs text-orange-400">{validationError}</p>}
+      {canAdd && (
+        <p className="text-xs text-gray-500">
+          Notional {formatCurrency(parsedSize * parsedEntry)} · margin {formatCurrency((parsedSize * parsedEntry) / parsedLeverage)}
+        </p>
+      )}
+
+      <button
+        onClick={handleAdd}
+        disabled={!canAdd}
+        className="btn-primary w-full py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add to book
+      </button>
+
+      {/* Saved plan */}
+      {trades.length > 0 && (
+        <div className="border-t border-gray-800/50 pt-3 space-y-1.5">
+          {trades.map((trade) => (
+            <div key={trade.id} className="flex items-center justify-between text-xs">
+              <div className="flex items-center gap-2">
+                <span className="text-purple-400 font-bold">PLANNED</span>
+                <span className="text-white font-semibold">{trade.coin}</span>
+                <span className={trade.side === 'long' ? 'text-emerald-400' : 'text-red-400'}>
+                  {trade.leverage}x {trade.side.toUpperCase()}
+                </span>
+                <span className="text-gray-500 mono">
+                  {trade.size} @ {formatCurrency(trade.entryPrice)}
+                </span>
+              </div>
+              <button
+                onClick={() => onRemove(trade.id)}
+                className="text-gray-500 hover:text-red-400 transition-colors px-1"
+                title="Remove planned trade"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import { LiquidationHeatmapPanelProps, HeatmapMetric, HeatmapCell } from '../types';
+import { formatCurrency } from '../services/calculations';
+import { buildLiquidationHeatmap, buildMoveAxis } from '../services/heatmap';
+
+const ranges = [25, 50, 75];
+const TICKS_PER_SIDE = 5;
+
+// Red when equity is gone, through amber, to green at or above today's equity
+const equityColor = (equity: number, baseEquity: number): string => {
+  const ratio = baseEquity > 0 ? Math.min(Math.max(equity / baseEquity, 0), 1.5) : 0;
+  if (ratio >= 1) return `rgba(16, 185, 129, ${0.25 + (ratio - 1) * 0.8})`;
+  return `rgba(${Math.round(239 - ratio * 4)}, ${Math.round(68 + ratio * 90)}, 68, ${0.55 - ratio * 0.3})`;
+};
+
+const marginRatioColor = (marginRatio: number): string => {
+  if (marginRatio < 0.25) return 'rgba(16, 185, 129, 0.3)';
+  if (marginRatio < 0.5) return 'rgba(234, 179, 8, 0.3)';
+  if (marginRatio < 0.8) return 'rgba(249, 115, 22, 0.4)';
+  return 'rgba(239, 68, 68, 0.45)';
+};
+
+export const LiquidationHeatmapPanel = ({
+  positions,
+  crossPortfolio,
+  prices,
+}: LiquidationHeatmapPanelProps) => {
+  const coins = useMemo(
+    () => [...new Set([...positions.map((pos) => pos.coin), 'BTC', 'ETH'])],
+    [positions]
+  );
+  const [xCoin, setXCoin] = useState(coins[0] ?? 'BTC');
+  const [yCoin, setYCoin] = useState(coins[1] ?? 'ETH');
+  const [range, setRange] = useState(50);
+  const [metric, setMetric] = useState<HeatmapMetric>('equity');
+
+  // Keep the axes on coins that are still offered after the book changes
+  useEffect(() => {
+    if (!coins.includes(xCoin)) setXCoin(coins[0]);
+    if (!coins.includes(yCoin)) setYCoin(coins.find((coin) => coin !== xCoin) ?? coins[0]);
+  }, [coins, xCoin, yCoin]);
+
+  const heatmap = useMemo(() => {
+    if (!crossPortfolio || xCoin === yCoin) return null;
+    return buildLiquidationHeatmap(
+      positions,
+      crossPortfolio,
+      prices,
+      xCoin,
+      yCoin,
+      buildMoveAxis(range, range / TICKS_PER_SIDE)
+    );
+  }, [positions, crossPortfolio, prices, xCoin, yCoin, range]);
+
+  const cellColor = (cell: HeatmapCell) => {
+    if (cell.isLiquidated) return 'rgba(239, 68, 68, 0.85)';
+    return metric === 'equity'
+      ? equityColor(cell.equity, heatmap?.baseEquity ?? 0)
+      : marginRatioColor(cell.marginRatio);
+  };
+
+  const cellTitle = (cell: HeatmapCell) => [
+    `${xCoin} ${cell.xMove >= 0 ? '+' : ''}${cell.xMove}% / ${yCoin} ${cell.yMove >= 0 ? '+' : ''}${cell.yMove}%`,
+    `Equity ${formatCurrency(cell.equity)}`,
+    `Margin ratio ${isFinite(cell.marginRatio) ? `${(cell.marginRatio * 100).toFixed(1)}%` : '—'}`,
+    cell.isLiquidated ? 'Account liquidated' : null,
+    cell.isolatedLiquidations.length > 0 ? `Isolated liquidated: ${cell.isolatedLiquidations.join(', ')}` : null,
+  ].filter(Boolean).join('\n');
+
+  const toggleClass = (active: boolean) =>
+    `px-2.5 py-1 text-xs font-bold rounded transition-all ${
+      active ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+    }`;
+
+  // Top row is the largest move up, like a price axis
+  const rows = heatmap ? [...heatmap.rows].reverse() : [];
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Liquidation Heatmap</h3>
+        <span className="text-xs text-gray-500">Two-asset cross stress</span>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={xCoin} onChange={(e) => setXCoin(e.target.value)} className="input-field text-sm">
+          {coins.map((coin) => <option key={coin} value={coin}>{coin}</option>)}
+        </select>
+        <span className="text-xs text-gray-500">vs</span>
+        <select value={yCoin} onChange={(e) => setYCoin(e.target.value)} className="input-field text-sm">
+          {coins.map((coin) => <option key={coin} value={coin}>{coin}</option>)}
+        </select>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {ranges.map((r) => (
+            <button key={r} onClick={() => setRange(r)} className={toggleClass(range === r)}>
+              ±{r}%
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50 ml-auto">
+          <button onClick={() => setMetric('equity')} className={toggleClass(metric === 'equity')}>Equity</button>
+          <button onClick={() => setMetric('marginRatio')} className={toggleClass(metric === 'marginRatio')}>Margin</button>
+        </div>
+      </div>
+
+      {!crossPortfolio ? (
+        <p className="text-xs text-gray-500">Load an account to map its cross-margin danger zones</p>
+      ) : xCoin === yCoin ? (
+        <p className="text-xs text-gray-500">Pick two different coins</p>
+      ) : heatmap && (
+        <div className="space-y-2">
+          <div
+            className="grid gap-px text-[10px] mono"
+            style={{ gridTemplateColumns: `2.5rem repeat(${heatmap.moves.length}, minmax(0, 1fr))` }}
+          >
+            {rows.map((row) => (
+              <Fragment key={row[0].yMove}>
+                <div className="text-gray-500 text-right pr-1 self-center">
+                  {row[0].yMove > 0 ? '+' : ''}{row[0].yMove}%
+                </div>
+                {row.map((cell) => (
+                  <div
+                    key={`${cell.xMove}:${cell.yMove}`}
+                    title={cellTitle(cell)}
+                    className={`aspect-square rounded-sm flex items-center justify-center ${
+                      cell.xMove === 0 && cell.yMove === 0 ? 'ring-1 ring-white/60' : ''
+                    }`}
+                    style={{ backgroundColor: cellColor(cell) }}
+                  >
+                    {cell.isLiquidated ? (
+                      <span className="text-white font-bold">✕</span>
+                    ) : cell.isolatedLiquidations.length > 0 ? (
+                      <span className="w-1.5 h-1.5 rounded-full bg-orange-300" />
+                    ) : null}
+                  </div>
+                ))}
+              </Fragment>
+            ))}
+            <div />
+            {heatmap.moves.map((move) => (
+              <div key={`axis-${move}`} className="text-gray-500 text-center">
+                {move > 0 ? '+' : ''}{move}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>↑ {heatmap.yCoin} move · → {heatmap.xCoin} move</span>
+            <span className="flex items-center gap-3">
+              <span className="flex items-center gap-1">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgba(239, 68, 68, 0.85)' }} /> Liquidated
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-1.5 h-1.5 rounded-full bg-orange-300" /> Isolated liq
+              </span>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { MonteCarloPanelProps, MonteCarloScope, SimulationHorizon } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+const horizons: SimulationHorizon[] = ['1H', '1D', '1W'];
+const pathCounts = [1000, 5000];
+
+// Compact axis labels for prices and PnL
+const formatAxisValue = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toFixed(abs < 1 ? 4 : 0);
+};
+
+export const MonteCarloPanel = ({
+  position,
+  canRunPortfolio,
+  isLoadingHistory,
+  isRunning,
+  onRun,
+  result,
+}: MonteCarloPanelProps) => {
+  const [scope, setScope] = useState<MonteCarloScope>('position');
+  const [horizon, setHorizon] = useState<SimulationHorizon>('1D');
+  const [pathCount, setPathCount] = useState(1000);
+
+  const canRun = !isRunning && !isLoadingHistory &&
+    (scope === 'portfolio' ? canRunPortfolio : position !== null);
+
+  const fanData = result?.fan.map((point) => ({
+    hour: point.hour,
+    outer: [point.p5, point.p95],
+    inner: [point.p25, point.p75],
+    median: point.p50,
+  })) ?? [];
+
+  const histogramData = result?.histogram.map((bin) => ({
+    mid: (bin.start + bin.end) / 2,
+    count: bin.count,
+  })) ?? [];
+
+  const probability = result ? result.liquidationProbability * 100 : 0;
+
+  const toggleClass = (active: boolean) =>
+    `px-2.5 py-1 text-xs font-bold rounded transition-all ${
+      active ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+    }`;
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Liquidation Probability</h3>
+        <span className="text-xs text-gray-500">Monte Carlo</span>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          <button onClick={() => setScope('position')} className={toggleClass(scope === 'position')}>
+            {position ? position.coin : 'Position'}
+          </button>
+          <button onClick={() => setScope('portfolio')} className={toggleClass(scope === 'portfolio')}>
+            Portfolio
+          </button>
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {horizons.map((h) => (
+            <button key={h} onClick={() => setHorizon(h)} className={toggleClass(horizon === h)}>
+              {h}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {pathCounts.map((count) => (
+            <button key={count} onClick={() => setPathCount(count)} className={toggleClass(pathCount === count)}>
+              {count / 1000}K
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onRun({ scope, horizon, pathCount })}
+          disabled={!canRun}
+          className="btn-primary px-5 py-1.5 text-sm font-semibold ml-auto disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running...' : isLoadingHistory ? 'Loading...' : 'Run'}
+        </button>
+      </div>
+
+      {result && (
+        <>
+          {/* Headline numbers */}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="stat-card">
+              <p className="stat-label text-xs">P(Liquidation)</p>
+              <p className={`text-lg font-bold mono mt-1 ${
+                probability >= 10 ? 'text-red-400' : probability >= 1 ? 'text-orange-400' : 'text-emerald-400'
+              }`}>
+                {probability.toFixed(probability < 1 ? 2 : 1)}%
+              </p>
+            </div>
+            <div className="stat-card">
+              <p className="stat-label text-xs">5th pct P&L</p>
+              <p className="text-sm font-bold mono mt-1 text-red-400">
+                {formatCurrency(result.pnlPercentiles.p5)}
+              </p>
+            </div>
+            <div className="stat-card">
+              <p className="stat-label text-xs">Median P&L</p>
+              <p className={`text-sm font-bold mono mt-1 ${
+                result.pnlPercentiles.p50 >= 0 ? 'text-emerald-400' : 'text-red-400'
+              }`}>
+                {formatCurrency(result.pnlPercentiles.p50)}
+              </p>
+            </div>
+          </div>
+
+          {/* Percentiles */}
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {(Object.entries(result.pnlPercentiles) as [string, number][]).map(([key, value]) => (
+              <div key={key}>
+                <div className="text-gray-500">{key.toUpperCase()}</div>
+                <div className={`mono ${value >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {formatAxisValue(value)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {/* Fan chart */}
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider mb-2 font-semibold">
+                {result.fanUnit === 'price' ? 'Price Fan' : 'P&L Fan'} (5-95%)
+              </p>
+              <ResponsiveContainer width="100%" height={180}>
+                <AreaChart data={fanData}>
+                  <XAxis
+                    dataKey="hour"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(hour: number) => `${hour.toFixed(hour < 10 ? 1 : 0)}h`}
+                    tick={{ fontSize: 10, fill: '#6B7280' }}
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tickFormatter={formatAxisValue}
+                    tick={{ fontSize: 10, fill: '#6B7280' }}
+                    width={50}
+                  />
+                  <Tooltip
+                    contentStyle={{ background: '#111827', border: '1px solid #374151', fontSize: 11 }}
+                    formatter={(value: number | number[]) =>
+                      Array.isArray(value)
+                        ? `${formatAxisValue(value[0])} – ${formatAxisValue(value[1])}`
+                        : formatAxisValue(value)
+                    }
+                  />
+                  <Area dataKey="outer" stroke="none" fill="#A855F7" fillOpacity={0.15} isAnimationActive={false} />
+                  <Area dataKey="inner" stroke="none" fill="#A855F7" fillOpacity={0.3} isAnimationActive={false} />
+                  <Area dataKey="median" stroke="#A855F7" fill="none" strokeWidth={2} isAnimationActive={false} />
+                  {result.fanUnit === 'price' && position?.liquidationPrice && (
+                    <ReferenceLine y={position.liquidationPrice} stroke="#EF4444" strokeDasharray="4 4" />
+                  )}
+                  {result.fanUnit === 'pnl' && (
+                    <ReferenceLine y={0} stroke="#4B5563" strokeDasharray="4 4" />
+                  )}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Ending PnL histogram */}
+            <div>
+              <p className="text-xs text-gray-500 uppercase tracking-wider mb-2 font-semibold">
+                Ending P&L Distribution
+              </p>
+              <ResponsiveContainer width="100%" height={180}>
+                <BarChart data={histogramData}>
+                  <XAxis
+                    dataKey="mid"
+                    tickFormatter={formatAxisValue}
+                    tick={{ fontSize: 10, fill: '#6B7280' }}
+                  />
+                  <YAxis tick={{ fontSize: 10, fill: '#6B7280' }} width={35} />
+                  <Tooltip
+                    contentStyle={{ background: '#111827', border: '1px solid #374151', fontSize: 11 }}
+                    labelFormatter={(mid: number) => formatCurrency(mid)}
+                  />
+                  <Bar dataKey="count" isAnimationActive={false}>
+                    {histogramData.map((bin, index) => (
+                      <Cell key={index} fill={bin.mid >= 0 ? '#10B981' : '#EF4444'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {result.missingHistory.length > 0 && (
+            <p className="text-xs text-orange-400">
+              No candle history for {result.missingHistory.join(', ')} — used a fallback volatility.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,15 @@
 import { useState, useRef, useEffect } from 'react';
-import { Position } from '../types';
+import { Position, PortfolioRiskReport, VarMethod, SimulationHorizon, VarConfidence, SpotBalance } from '../types';
+import { calculateMarginByMode } from '../services/calculations';
+import { calculateSpotValue } from '../services/spot';
 
 interface PortfolioSummaryProps {
   positions: Position[];
+  spotBalances: SpotBalance[];
   accountValue: string | null;
   withdrawable: string | null;
   isConnected: boolean; // WebSocket connection status
+  riskReport: PortfolioRiskReport | null;
 }
 
 // Format number with commas
@@ -34,21 +38,40 @@ const formatLargeNumber = (value: number): string => {
 
 export const PortfolioSummary = ({ 
   positions, 
+  spotBalances,
   accountValue, 
   withdrawable,
-  isConnected 
+  isConnected,
+  riskReport,
 }: PortfolioSummaryProps) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [varMethod, setVarMethod] = useState<VarMethod>('historical');
+  const [varHorizon, setVarHorizon] = useState<SimulationHorizon>('1D');
   const popupRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
   // Calculate portfolio stats
   const totalPnl = positions.reduce((sum, pos) => sum + pos.unrealizedPnl, 0);
   const totalMarginUsed = positions.reduce((sum, pos) => sum + pos.margin, 0);
+  const marginByMode = calculateMarginByMode(positions);
   const totalPositionValue = positions.reduce((sum, pos) => sum + pos.positionValue, 0);
+  const plannedCount = positions.filter((pos) => pos.isHypothetical).length;
   const accountVal = accountValue ? parseFloat(accountValue) : 0;
   const availableBalance = withdrawable ? parseFloat(withdrawable) : 0;
+
+  // Spot tokens are not perp margin, but count toward total wealth
+  const spotValue = calculateSpotValue(spotBalances);
+  const spotUsdc = spotBalances.find((balance) => balance.coin === 'USDC');
+  const transferableUsdc = spotUsdc ? spotUsdc.total - spotUsdc.hold : 0;
   
+  // VaR / ES for the chosen method and horizon
+  const findEstimate = (confidence: VarConfidence) =>
+    riskReport?.estimates.find(
+      (e) => e.method === varMethod && e.horizon === varHorizon && e.confidence === confidence
+    ) ?? null;
+  const var95 = findEstimate(0.95);
+  const var99 = findEstimate(0.99);
+
   // Calculate total ROI
   const totalRoi = totalMarginUsed > 0 ? (totalPnl / totalMarginUsed) * 100 : 0;
 
@@ -170,6 +193,11 @@ export const PortfolioSummary = ({
                     <div className="text-2xl font-bold text-white mono">
                       {formatLargeNumber(accountVal)}
                     </div>
+                    {spotValue > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Total with spot <span className="mono text-gray-300">{formatLargeNumber(accountVal + spotValue)}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* P&L Row */}
@@ -211,6 +239,127 @@ export const PortfolioSummary = ({
                     </div>
                   </div>
 
+                  {plannedCount > 0 && (
+                    <div className="text-xs text-purple-400 bg-purple-950/20 border border-purple-900/40 rounded-lg px-3 py-2">
+                      Includes {plannedCount} planned trade{plannedCount > 1 ? 's' : ''} not on the exchange
+                    </div>
+                  )}
+
+                  {/* Value at Risk */}
+                  {riskReport && (
+                    <div className="border-t border-gray-800 pt-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="text-xs text-gray-500 uppercase tracking-wider">Value at Risk</div>
+                        <div className="flex gap-1">
+                          {(['historical', 'parametric'] as VarMethod[]).map((method) => (
+                            <button
+                              key={method}
+                              onClick={() => setVarMethod(method)}
+                              className={`text-xs px-1.5 py-0.5 rounded ${
+                                varMethod === method ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300'
+                              }`}
+                            >
+                              {method === 'historical' ? 'Hist' : 'Param'}
+                            </button>
+                          ))}
+                          {(['1D', '1W'] as SimulationHorizon[]).map((horizon) => (
+                            <button
+                              key={horizon}
+                              onClick={() => setVarHorizon(horizon)}
+                              className={`text-xs px-1.5 py-0.5 rounded ${
+                                varHorizon === horizon ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300'
+                              }`}
+                            >
+                              {horizon}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {var95 && var99 ? (
+                        <>
+                          <div className="grid grid-cols-2 gap-2 mb-2">
+                            <div className="p-2 bg-gray-800/30 rounded-lg">
+                              <div className="text-xs text-gray-500">VaR 95 / 99</div>
+                              <div className="text-sm font-bold text-red-400 mono">
+                                {formatLargeNumber(var95.valueAtRisk)} / {formatLargeNumber(var99.valueAtRisk)}
+                              </div>
+                            </div>
+                            <div className="p-2 bg-gray-800/30 rounded-lg">
+                              <div className="text-xs text-gray-500">ES 95 / 99</div>
+                              <div className="text-sm font-bold text-red-400 mono">
+                                {formatLargeNumber(var95.expectedShortfall)} / {formatLargeNumber(var99.expectedShortfall)}
+                              </div>
+                            </div>
+                          </div>
+
+                          {/* Per-position contribution at 95% */}
+                          <div className="space-y-1">
+                            <div className="flex justify-between text-xs text-gray-600">
+                              <span>Contribution (95%)</span>
+                              <span>VaR / ES</span>
+                            </div>
+                            {var95.contributions.map((contribution) => (
+                              <div key={contribution.coin} className="flex justify-between text-xs">
+                                <span className="text-gray-300">{contribution.coin}</span>
+                                <span className="mono text-gray-400">
+                                  {formatLargeNumber(contribution.valueAtRisk)} / {formatLargeNumber(contribution.expectedShortfall)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-xs text-gray-600">Not enough price history for this horizon</div>
+                      )}
+
+                      {riskReport.missingHistory.length > 0 && (
+                        <div className="text-xs text-orange-400 mt-1">
+                          Excludes {riskReport.missingHistory.join(', ')} (no history)
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Margin by mode - cross shares account equity, isolated buckets stand alone */}
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="p-2 bg-gray-800/30 rounded-lg">
+                      <div className="text-xs text-blue-400">Cross Margin</div>
+                      <div className="text-sm font-bold text-white mono">{formatLargeNumber(marginByMode.cross)}</div>
+                    </div>
+                    <div className="p-2 bg-gray-800/30 rounded-lg">
+                      <div className="text-xs text-amber-400">Isolated Margin</div>
+                      <div className="text-sm font-bold text-white mono">{formatLargeNumber(marginByMode.isolated)}</div>
+                    </div>
+                  </div>
+
+                  {/* Spot Holdings - valued at USDC prices, outside perp margin */}
+                  {spotBalances.length > 0 && (
+                    <div className="border-t border-gray-800 pt-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="text-xs text-gray-500 uppercase tracking-wider">Spot Holdings</div>
+                        <div className="text-xs font-bold text-white mono">{formatLargeNumber(spotValue)}</div>
+                      </div>
+                      <div className="space-y-1 max-h-28 overflow-y-auto hide-scrollbar">
+                        {spotBalances.map((balance) => (
+                          <div key={balance.coin} className="flex justify-between text-xs">
+                            <span className="text-gray-300">
+                              {balance.coin} <span className="text-gray-500 mono">{formatNumber(balance.total, 4)}</span>
+                            </span>
+                            <span className="mono text-gray-400">
+                              {balance.price !== null ? formatLargeNumber(balance.value) : 'No USDC market'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      {transferableUsdc > 0 && (
+                        <div className="text-xs text-gray-500 mt-2">
+                          {formatLargeNumber(transferableUsdc)} USDC can be transferred in as perp margin
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Position List Preview */}
                   <div className="border-t border-gray-800 pt-3">
                     <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Open Positions</div>
@@ -229,6 +378,14 @@ export const PortfolioSummary = ({
                             }`}>
                               {pos.leverage}x
                             </span>
+                            <span className={`text-xs ${
+                              pos.marginMode === 'isolated' ? 'text-amber-400' : 'text-blue-400'
+                            }`}>
+                              {pos.marginMode === 'isolated' ? 'ISO' : 'CROSS'}
+                            </span>
+                            {pos.isHypothetical && (
+                              <span className="text-xs text-purple-400 font-bold">PLANNED</span>
+                            )}
                           </div>
                           <span className={`text-sm font-medium mono ${
                             pos.unrealizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'
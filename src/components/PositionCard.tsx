@@ -1,12 +1,15 @@
 import { Position } from '../types';
+import { estimateAdlRank, TOP_ADL_BUCKET } from '../services/adl';
 
 interface PositionCardProps {
   position: Position;
+  crossEquity: number | null;
   isSelected: boolean;
   onClick: () => void;
+  onRemove?: () => void;
 }
 
-export const PositionCard = ({ position, isSelected, onClick }: PositionCardProps) => {
+export const PositionCard = ({ position, crossEquity, isSelected, onClick, onRemove }: PositionCardProps) => {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -32,6 +35,9 @@ export const PositionCard = ({ position, isSelected, onClick }: PositionCardProp
   // Handle nullable liquidationPrice
   const liquidationPrice = position.liquidationPrice ?? 0;
 
+  // Only winning positions queue for auto-deleveraging
+  const adl = estimateAdlRank(position, crossEquity);
+
   return (
     <button
       onClick={onClick}
@@ -39,7 +45,7 @@ export const PositionCard = ({ position, isSelected, onClick }: PositionCardProp
         isSelected
           ? 'bg-emerald-950/30 border-2 border-emerald-500/50'
           : 'bg-gray-950/40 border border-gray-800/40 hover:border-gray-700/60 hover:bg-gray-950/60'
-      }`}
+      } ${position.isHypothetical ? 'border-dashed !border-purple-700/60' : ''}`}
     >
       {/* Header */}
       <div className="flex items-start justify-between mb-3">
@@ -62,6 +68,18 @@ export const PositionCard = ({ position, isSelected, onClick }: PositionCardProp
               }`}>
                 {position.leverage}X {normalizedSide}
               </span>
+              <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${
+                position.marginMode === 'isolated'
+                  ? 'bg-amber-950/50 text-amber-400 border border-amber-800/50'
+                  : 'bg-blue-950/50 text-blue-400 border border-blue-800/50'
+              }`}>
+                {position.marginMode === 'isolated' ? 'ISO' : 'CROSS'}
+              </span>
+              {position.isHypothetical && (
+                <span className="text-xs font-bold px-1.5 py-0.5 rounded bg-purple-950/50 text-purple-400 border border-purple-800/50">
+                  PLANNED
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -73,6 +91,18 @@ export const PositionCard = ({ position, isSelected, onClick }: PositionCardProp
           <div className="text-base font-bold mono">
             {formatPercent(roi)}
           </div>
+          {onRemove && (
+            <span
+              role="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove();
+              }}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+            >
+              Remove
+            </span>
+          )}
         </div>
       </div>
 
@@ -96,8 +126,31 @@ export const PositionCard = ({ position, isSelected, onClick }: PositionCardProp
 
       {/* Liquidation - Tight single line */}
       <div className="flex items-center gap-1.5 text-xs pb-3 mb-3 border-b border-gray-800/50">
-        <span className="text-gray-500">Liquidation:</span>
+        <span className="text-gray-500">
+          {position.marginMode === 'isolated' ? 'Liquidation:' : 'Liquidation (account):'}
+        </span>
         <span className="font-mono text-gray-300 font-semibold">{formatCurrency(liquidationPrice)}</span>
+        {adl.bucket > 0 && (
+          <span
+            className="ml-auto flex items-center gap-1"
+            title={`Estimated ADL rank ${adl.bucket}/${TOP_ADL_BUCKET} · PnL ${(adl.pnlRatio * 100).toFixed(0)}% x ${adl.effectiveLeverage.toFixed(1)}x effective leverage`}
+          >
+            <span className={adl.bucket === TOP_ADL_BUCKET ? 'text-orange-400 font-bold' : 'text-gray-500'}>ADL</span>
+            <span className="flex items-end gap-px">
+              {Array.from({ length: TOP_ADL_BUCKET }, (_, i) => (
+                <span
+                  key={i}
+                  className={`w-1 rounded-sm ${
+                    i < adl.bucket
+                      ? adl.bucket === TOP_ADL_BUCKET ? 'bg-orange-400' : 'bg-emerald-500'
+                      : 'bg-gray-800'
+                  }`}
+                  style={{ height: `${4 + i * 2}px` }}
+                />
+              ))}
+            </span>
+          </span>
+        )}
       </div>
 
       {/* P&L - Own row, centered, prominent */}
@@ -1,19 +1,24 @@
 import { PositionListProps } from '../types';
 import { PositionCard } from './PositionCard';
+import { SpotBalanceList } from './SpotBalanceList';
 
 export const PositionList = ({
   positions,
+  spotBalances,
+  crossEquity,
   selectedPosition,
   onSelectPosition,
+  onRemoveHypothetical,
 }: PositionListProps) => {
   const totalPnL = positions.reduce((acc, pos) => acc + pos.unrealizedPnl, 0);
   const totalMargin = positions.reduce((acc, pos) => acc + pos.margin, 0);
   const winningPositions = positions.filter(p => p.unrealizedPnl >= 0).length;
   const losingPositions = positions.filter(p => p.unrealizedPnl < 0).length;
+  const plannedPositions = positions.filter(p => p.isHypothetical).length;
 
   if (positions.length === 0) {
     return (
-      <div className="p-4 md:p-6 h-full flex items-center justify-center">
+      <div className="p-4 md:p-6 h-full flex flex-col justify-center gap-4">
         <div className="glass-card p-8 text-center">
           <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-gray-950/50 
                         flex items-center justify-center border border-gray-800/50">
@@ -24,9 +29,12 @@ export const PositionList = ({
           </div>
           <p className="text-gray-400 font-semibold mb-2">No Positions Found</p>
           <p className="text-sm text-gray-600">
-            Enter a valid Hyperliquid address to load positions
+            {spotBalances.length > 0
+              ? 'This account holds spot balances only'
+              : 'Enter a valid Hyperliquid address to load positions'}
           </p>
         </div>
+        <SpotBalanceList balances={spotBalances} />
       </div>
     );
   }
@@ -40,10 +48,15 @@ export const PositionList = ({
           <PositionCard
             key={`${position.coin}-${position.entryPrice}`}
             position={position}
+            crossEquity={crossEquity}
             isSelected={selectedPosition?.coin === position.coin}
             onClick={() => onSelectPosition(position)}
+            onRemove={position.isHypothetical && onRemoveHypothetical
+              ? () => onRemoveHypothetical(position.coin)
+              : undefined}
           />
         ))}
+        <SpotBalanceList balances={spotBalances} />
       </div>
     );
   }
@@ -54,7 +67,10 @@ export const PositionList = ({
       {/* Header Stats */}
       <div className="p-5 md:p-6 border-b border-emerald-900/20">
         <h2 className="text-base font-bold text-white mb-4">
-          Open Positions ({positions.length})
+          Open Positions ({positions.length - plannedPositions})
+          {plannedPositions > 0 && (
+            <span className="ml-2 text-xs font-semibold text-purple-400">+{plannedPositions} planned</span>
+          )}
         </h2>
         
         {/* Portfolio Summary */}
@@ -90,10 +106,15 @@ export const PositionList = ({
           <PositionCard
             key={`${position.coin}-${position.entryPrice}`}
             position={position}
+            crossEquity={crossEquity}
             isSelected={selectedPosition?.coin === position.coin}
             onClick={() => onSelectPosition(position)}
+            onRemove={position.isHypothetical && onRemoveHypothetical
+              ? () => onRemoveHypothetical(position.coin)
+              : undefined}
           />
         ))}
+        <SpotBalanceList balances={spotBalances} />
       </div>
 
       {/* Quick Stats Footer (Desktop Only) */}
@@ -1,18 +1,128 @@
-import { Position, SimulationState } from '../types';
+import { Fragment, useState } from 'react';
+import {
+  Position,
+  SimulationState,
+  ReplayResult,
+  CloseImpactEstimate,
+  OrderPathResult,
+  CrossPortfolio,
+  PriceVector,
+  MarginTopUpResult,
+  MarginModel,
+} from '../types';
+import { calculateMarginAtRisk, calculateMarginTopUp } from '../services/calculations';
+import { estimateAdlRank, TOP_ADL_BUCKET } from '../services/adl';
+
+const adverseMovePresets = [10, 20, 35, 50];
+const MAX_LIQUIDATION_STEPS_SHOWN = 6;
 
 interface PositionStatsProps {
   position: Position;
   simulationState: SimulationState;
+  crossEquity: number | null;
+  replay: ReplayResult | null;
+  replayStep: number;
+  impact: CloseImpactEstimate | null;
+  isLoadingImpact: boolean;
+  orderPath: OrderPathResult | null; // Open orders worked along the simulated path
+  openOrderCount: number;
+  crossPortfolio: CrossPortfolio | null;
+  prices: PriceVector;
+  marginModel: MarginModel | null;
 }
 
-export const PositionStats = ({ position, simulationState }: PositionStatsProps) => {
+export const PositionStats = ({
+  position,
+  simulationState,
+  crossEquity,
+  replay,
+  replayStep,
+  impact,
+  isLoadingImpact,
+  orderPath,
+  openOrderCount,
+  crossPortfolio,
+  prices,
+  marginModel,
+}: PositionStatsProps) => {
+  const [adverseMove, setAdverseMove] = useState('35');
+
   const isSimulating = simulationState.isSimulating;
   const currentPrice = isSimulating ? (simulationState.simulatedPrice ?? position.currentPrice) : position.currentPrice;
   const unrealizedPnl = isSimulating ? (simulationState.simulatedPnl ?? position.unrealizedPnl) : position.unrealizedPnl;
   const roi = (unrealizedPnl / position.margin) * 100;
 
-  // Handle nullable liquidationPrice
-  const liquidationPrice = position.liquidationPrice ?? 0;
+  // Handle nullable liquidationPrice - simulations carry the recomputed account-level level
+  const liquidationPrice = (isSimulating ? simulationState.liquidationPrice : position.liquidationPrice) ?? 0;
+
+  // Isolated positions only risk their own bucket; cross positions draw on shared equity
+  const isIsolated = position.marginMode === 'isolated';
+  const marginAtRisk = calculateMarginAtRisk(position, crossEquity);
+
+  // Deviation of the margin-model liquidation price from the reported one
+  const liquidationDeviation = position.derivedLiquidationPrice !== null && position.liquidationPrice
+    ? ((position.derivedLiquidationPrice - position.liquidationPrice) / position.liquidationPrice) * 100
+    : null;
+
+  // Replays carry their own order path, stepped per candle; only show fills reached so far
+  const activeOrderPath = replay ? replay.orderPath : orderPath;
+  const visibleFills = activeOrderPath
+    ? activeOrderPath.fills.filter((fill) => !replay || fill.step <= replayStep)
+    : [];
+
+  const getOrderVerdict = (path: OrderPathResult) => {
+    const reduced = path.fills.some((fill) => fill.sizeChange < 0);
+    if (path.liquidationStep !== null) {
+      return { text: reduced ? 'Liquidated despite fills' : 'Liquidated before any order filled', className: 'text-red-400' };
+    }
+    if (path.liquidatedWithoutOrders) {
+      return { text: 'Orders exit before liquidation', className: 'text-emerald-400' };
+    }
+    return { text: path.fills.length > 0 ? 'Orders filled, no liquidation' : 'No orders reached', className: 'text-gray-400' };
+  };
+
+  const orderKindLabel = { limit: 'Limit', stop: 'Stop', takeProfit: 'TP' } as const;
+
+  // Long partial-liquidation runs show their first steps and the final outcome
+  const liquidationProcess = simulationState.liquidationProcess;
+  const liquidationSteps = liquidationProcess?.steps ?? [];
+  const isLiquidationTruncated = liquidationSteps.length > MAX_LIQUIDATION_STEPS_SHOWN;
+  const visibleLiquidationSteps = isLiquidationTruncated
+    ? [...liquidationSteps.slice(0, MAX_LIQUIDATION_STEPS_SHOWN - 1), liquidationSteps[liquidationSteps.length - 1]]
+    : liquidationSteps;
+  const hiddenLiquidationSteps = liquidationSteps.length - visibleLiquidationSteps.length;
+
+  const liquidationStepLabel = { partial: 'Partial', full: 'Full close', backstop: 'Backstop' } as const;
+
+  // A pump that leaves the position in the top ADL bucket puts the win at risk of deleveraging
+  const scenarioAdl = isSimulating && !simulationState.isLiquidated && simulationState.simulatedPrice !== null
+    ? estimateAdlRank(position, crossEquity, simulationState.simulatedPrice)
+    : null;
+  const isTopAdlScenario = scenarioAdl !== null && scenarioAdl.bucket === TOP_ADL_BUCKET;
+
+  // Deposit or size cut needed to survive a chosen move against the position
+  const parsedMove = parseFloat(adverseMove);
+  const direction = position.side === 'long' ? 1 : -1;
+  const targetTopUp = parsedMove > 0
+    ? calculateMarginTopUp(
+        position,
+        Math.max(position.currentPrice * (1 - (direction * parsedMove) / 100), 0),
+        crossPortfolio,
+        prices,
+        marginModel
+      )
+    : null;
+
+  // Same answer for a simulated scenario that liquidates the position
+  const scenarioTopUp = isSimulating && simulationState.isLiquidated && simulationState.simulatedPrice !== null
+    ? calculateMarginTopUp(
+        position,
+        simulationState.simulatedPrice,
+        crossPortfolio,
+        { ...prices, ...simulationState.scenarioPrices },
+        marginModel
+      )
+    : null;
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -27,6 +137,11 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
 
+  const formatReduction = (result: MarginTopUpResult) => {
+    if (result.sizeReduction === null) return 'Not enough alone';
+    return `${result.sizeReduction.toFixed(4)} (${((result.sizeReduction / position.size) * 100).toFixed(1)}%)`;
+  };
+
   // Get asset name - handle both 'coin' and 'asset' fields
   const assetName = (position as any).coin || (position as any).asset || 'UNKNOWN';
   
@@ -62,10 +177,38 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
           </div>
         </div>
         {isSimulating && (
-          <div className="mt-2 pt-2 border-t border-gray-800/50">
+          <div className="mt-2 pt-2 border-t border-gray-800/50 flex items-center justify-between">
             <div className="text-xs text-gray-500 font-medium">
-              Simulated Result
+              {replay ? `Replay candle ${replayStep + 1} of ${replay.candles.length}` : 'Simulated Result'}
             </div>
+            {simulationState.isLiquidated && (
+              <div className="text-xs font-bold text-red-400 border rounded px-2 py-0.5 liquidation-warning">
+                {replay && replay.liquidationIndex !== null
+                  ? `LIQUIDATED @ candle ${replay.liquidationIndex + 1}`
+                  : simulationState.pathLiquidation
+                    ? `LIQUIDATED @ ${formatCurrency(simulationState.pathLiquidation.price)} · ${new Date(simulationState.pathLiquidation.time).toLocaleTimeString()}`
+                    : 'LIQUIDATED'}
+              </div>
+            )}
+            {isTopAdlScenario && (
+              <div className="text-xs font-bold text-orange-400 border border-orange-800/50 rounded px-2 py-0.5">
+                TOP ADL BUCKET
+              </div>
+            )}
+          </div>
+        )}
+        {isTopAdlScenario && scenarioAdl && (
+          <div className="mt-2 text-xs text-gray-400">
+            At {formatPercent(scenarioAdl.pnlRatio * 100)} on collateral and {scenarioAdl.effectiveLeverage.toFixed(1)}x effective
+            leverage this win would be among the first auto-deleveraged in an extreme move
+          </div>
+        )}
+        {scenarioTopUp && scenarioTopUp.deposit > 0 && (
+          <div className="mt-2 text-xs text-gray-400">
+            To survive: deposit <span className="font-mono font-bold text-orange-400">{formatCurrency(scenarioTopUp.deposit)}</span>
+            {scenarioTopUp.sizeReduction !== null && (
+              <> or cut <span className="font-mono font-bold text-orange-400">{formatReduction(scenarioTopUp)}</span> now</>
+            )}
           </div>
         )}
       </div>
@@ -73,8 +216,13 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
       {/* Liquidation Risk Panel - Simplified */}
       <div className="glass-card p-4 border border-gray-800/40">
         <div className="mb-3">
-          <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
-            Liquidation Risk
+          <div className="flex items-center justify-between">
+            <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
+              Liquidation Risk
+            </div>
+            <span className="text-xs text-gray-500">
+              {isIsolated ? 'Fixed level (isolated)' : 'Account-wide (cross)'}
+            </span>
           </div>
         </div>
 
@@ -103,8 +251,257 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
             </div>
           </div>
         </div>
+
+        {/* Margin model check - derived liquidation vs API */}
+        {position.derivedLiquidationPrice !== null && (
+          <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-800/50 text-xs">
+            <span className="text-gray-500">Model Liq</span>
+            <span className="font-mono text-gray-300">
+              {formatCurrency(position.derivedLiquidationPrice)}
+              {liquidationDeviation !== null && (
+                <span className={`ml-2 ${Math.abs(liquidationDeviation) > 1 ? 'text-orange-400' : 'text-gray-500'}`}>
+                  ({formatPercent(liquidationDeviation)} vs API)
+                </span>
+              )}
+            </span>
+          </div>
+        )}
       </div>
 
+      {/* Margin Top-Up Panel - inverse solver for a target adverse move */}
+      <div className="glass-card p-4 border border-gray-800/40">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
+            Survive a Move
+          </div>
+          <div className="flex items-center gap-1">
+            {adverseMovePresets.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => setAdverseMove(String(preset))}
+                className={`px-1.5 py-0.5 rounded text-xs font-bold mono transition-colors ${
+                  adverseMove === String(preset) ? 'bg-red-950/50 text-red-400' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {preset}%
+              </button>
+            ))}
+            <input
+              type="number"
+              value={adverseMove}
+              onChange={(e) => setAdverseMove(e.target.value)}
+              className="input-field w-16 text-xs py-0.5 px-1.5"
+            />
+          </div>
+        </div>
+
+        {targetTopUp ? (
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <div className="text-gray-500 mb-1">{position.side === 'long' ? 'Drop to' : 'Rally to'}</div>
+              <div className="font-mono font-bold text-gray-300">
+                {formatCurrency(targetTopUp.targetPrice)}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500 mb-1">Deposit</div>
+              <div className={`font-mono font-bold ${targetTopUp.deposit > 0 ? 'text-orange-400' : 'text-emerald-400'}`}>
+                {targetTopUp.deposit > 0 ? formatCurrency(targetTopUp.deposit) : 'None needed'}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-gray-500 mb-1">Or Cut Size</div>
+              <div className={`font-mono font-bold ${
+                targetTopUp.sizeReduction === null ? 'text-red-400' : targetTopUp.sizeReduction > 0 ? 'text-orange-400' : 'text-emerald-400'
+              }`}>
+                {targetTopUp.sizeReduction === 0 ? '—' : formatReduction(targetTopUp)}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500">Enter a move against the position</div>
+        )}
+        {isIsolated && targetTopUp && targetTopUp.deposit > 0 && (
+          <div className="mt-2 text-xs text-gray-500">
+            Cutting an isolated position releases margin pro rata, so only adding margin moves liquidation
+          </div>
+        )}
+      </div>
+
+      {/* Execution Estimate Panel - walks the live order book */}
+      <div className="glass-card p-4 border border-gray-800/40">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
+            Close Impact
+          </div>
+          <span className="text-xs text-gray-500">L2 book</span>
+        </div>
+
+        {impact ? (
+          <div className="space-y-2 text-xs">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-gray-500 mb-1">Close Now</div>
+                <div className="font-mono font-bold text-gray-300">
+                  {formatCurrency(impact.close.averagePrice)}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500 mb-1">Slippage</div>
+                <div className={`font-mono font-bold ${impact.close.slippage > 0.5 ? 'text-orange-400' : 'text-gray-300'}`}>
+                  {impact.close.slippage.toFixed(3)}%
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-gray-500 mb-1">Impact Cost</div>
+                <div className="font-mono font-bold text-red-400">
+                  {formatCurrency(impact.close.impactCost)}
+                </div>
+              </div>
+            </div>
+
+            {impact.liquidation && (
+              <div className={`grid grid-cols-3 gap-2 pt-2 border-t border-gray-800/50 ${
+                simulationState.isLiquidated ? 'liquidation-warning rounded px-2 pb-2' : ''
+              }`}>
+                <div>
+                  <div className="text-gray-500 mb-1">Liq Fill</div>
+                  <div className="font-mono font-bold text-gray-300">
+                    {formatCurrency(impact.liquidation.averagePrice)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500 mb-1">Liq Slippage</div>
+                  <div className="font-mono font-bold text-gray-300">
+                    {impact.liquidation.slippage.toFixed(3)}%
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-gray-500 mb-1">Loss if Liquidated</div>
+                  <div className="font-mono font-bold text-red-400">
+                    {formatCurrency(impact.liquidationPnl ?? 0)}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {impact.close.unfilledSize > 0 && (
+              <div className="text-orange-400">
+                {impact.close.unfilledSize.toFixed(4)} {assetName} exceeds visible depth — cost is a lower bound
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500">
+            {isLoadingImpact ? 'Loading order book...' : 'Order book unavailable'}
+          </div>
+        )}
+      </div>
+
+      {/* Liquidation Process Panel - partial closes and backstop along the path */}
+      {isSimulating && !replay && liquidationProcess && liquidationProcess.steps.length > 0 && (
+        <div className="glass-card p-4 border border-red-900/40">
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
+              Liquidation Process
+            </div>
+            <span className={`text-xs font-bold ${liquidationProcess.finalSize > 0 ? 'text-orange-400' : 'text-red-400'}`}>
+              {liquidationProcess.isBackstopped
+                ? 'Taken over by backstop'
+                : liquidationProcess.finalSize > 0 ? 'Partially liquidated' : 'Closed into the book'}
+            </span>
+          </div>
+
+          <div className="space-y-1.5 text-xs">
+            {visibleLiquidationSteps.map((step, index) => (
+              <Fragment key={`${step.time}-${index}`}>
+                {isLiquidationTruncated && index === visibleLiquidationSteps.length - 1 && (
+                  <div className="text-gray-500">… {hiddenLiquidationSteps} more steps</div>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className={step.kind === 'partial' ? 'text-orange-400' : 'text-red-400'}>
+                    {liquidationStepLabel[step.kind]}
+                    <span className="text-gray-500"> · {new Date(step.time).toLocaleTimeString()}</span>
+                  </span>
+                  <span className="font-mono text-gray-300">
+                    -{step.sizeClosed.toFixed(4)} @ {formatCurrency(step.fillPrice)}
+                    <span className="ml-2 text-gray-500">left {step.remainingSize.toFixed(4)}</span>
+                  </span>
+                </div>
+              </Fragment>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-xs mt-3 pt-3 border-t border-gray-800/50">
+            <div>
+              <div className="text-gray-500 mb-1">Realized Loss</div>
+              <div className={`font-mono font-bold ${liquidationProcess.realizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatCurrency(liquidationProcess.realizedPnl)}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500 mb-1">Size Left</div>
+              <div className="font-mono font-bold text-gray-300">
+                {liquidationProcess.finalSize.toFixed(4)}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-gray-500 mb-1">{isIsolated ? 'Margin Left' : 'Account Equity'}</div>
+              <div className="font-mono font-bold text-gray-300">
+                {formatCurrency(liquidationProcess.finalEquity)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Open Orders Panel - fills along the simulated path */}
+      {openOrderCount > 0 && (
+        <div className="glass-card p-4 border border-gray-800/40">
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-gray-400 text-xs font-medium uppercase tracking-wide">
+              Orders on Path
+            </div>
+            {isSimulating && activeOrderPath ? (
+              <span className={`text-xs font-bold ${getOrderVerdict(activeOrderPath).className}`}>
+                {getOrderVerdict(activeOrderPath).text}
+              </span>
+            ) : (
+              <span className="text-xs text-gray-500">{openOrderCount} working</span>
+            )}
+          </div>
+
+          {isSimulating && activeOrderPath ? (
+            visibleFills.length > 0 ? (
+              <div className="space-y-1.5 text-xs">
+                {visibleFills.map((fill) => (
+                  <div key={fill.oid} className="flex items-center justify-between">
+                    <span className={fill.side === 'buy' ? 'text-emerald-400' : 'text-red-400'}>
+                      {orderKindLabel[fill.kind]} {fill.side.toUpperCase()}
+                      {replay && <span className="text-gray-500"> · candle {fill.step + 1}</span>}
+                    </span>
+                    <span className="font-mono text-gray-300">
+                      {fill.sizeChange > 0 ? '+' : ''}{fill.sizeChange.toFixed(4)} @ {formatCurrency(fill.price)}
+                      {fill.realizedPnl !== 0 && (
+                        <span className={`ml-2 ${fill.realizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                          {formatCurrency(fill.realizedPnl)}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">No fills yet</div>
+            )
+          ) : (
+            <div className="text-xs text-gray-500">
+              Limits and TP/SL triggers fill when a simulated path crosses them
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Position Details Panel */}
       <div className="glass-card p-4">
         <div className="text-gray-400 text-xs font-medium uppercase tracking-wide mb-3">
@@ -128,6 +525,13 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
               <span className="text-xs font-bold text-gray-400">
                 {position.leverage}X
               </span>
+              <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${
+                isIsolated
+                  ? 'bg-amber-950/50 text-amber-400'
+                  : 'bg-blue-950/50 text-blue-400'
+              }`}>
+                {isIsolated ? 'ISOLATED' : 'CROSS'}
+              </span>
             </div>
           </div>
           <div className="text-right">
@@ -152,6 +556,24 @@ export const PositionStats = ({ position, simulationState }: PositionStatsProps)
               {formatCurrency(position.margin)}
             </div>
           </div>
+          <div>
+            <div className="text-gray-500 mb-1">Maintenance</div>
+            <div className="font-mono font-bold text-gray-300">
+              {formatCurrency(position.maintenanceMargin)}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-gray-500 mb-1">{isIsolated ? 'Margin Bucket' : 'Shared Equity'}</div>
+            <div className="font-mono font-bold text-gray-300">
+              {formatCurrency(marginAtRisk)}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500 mb-1">Funding Since Open</div>
+            <div className={`font-mono font-bold ${position.cumFundingSinceOpen > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+              {formatCurrency(-position.cumFundingSinceOpen)}
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -6,6 +6,8 @@ export const PriceChart = ({
   position, 
   simulationState, 
   priceHistory, 
+  replay,
+  replayStep,
   candleData,
   isLoadingCandles,
   selectedTimeframe,
@@ -146,7 +148,66 @@ export const PriceChart = ({
       lineSeriesRef.current = null;
     }
 
-    if (isSimulating && priceHistory.length > 0) {
+    if (replay && replay.candles.length > 0) {
+      // Replay mode - historical path rescaled to the current price, revealed up to the current step
+      const replaySeries = chart.addCandlestickSeries({
+        upColor: '#A855F7',
+        downColor: '#7C3AED',
+        borderUpColor: '#A855F7',
+        borderDownColor: '#7C3AED',
+        wickUpColor: '#A855F7',
+        wickDownColor: '#7C3AED',
+        priceLineVisible: true,
+        lastValueVisible: true,
+      });
+
+      const visibleCandles = replay.candles.slice(0, replayStep + 1);
+      replaySeries.setData(visibleCandles.map(candle => ({
+        time: msToSeconds(candle.time) as any,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+      })));
+
+      // Flag the exact candle where liquidation happens once playback reaches it
+      if (replay.liquidationIndex !== null && replayStep >= replay.liquidationIndex) {
+        const liquidationCandle = replay.candles[replay.liquidationIndex];
+        replaySeries.setMarkers([{
+          time: msToSeconds(liquidationCandle.time) as any,
+          position: position.side === 'long' ? 'belowBar' : 'aboveBar',
+          color: '#EF4444',
+          shape: position.side === 'long' ? 'arrowUp' : 'arrowDown',
+          text: 'LIQ',
+        }]);
+      }
+
+      replaySeries.createPriceLine({
+        price: position.entryPrice,
+        color: '#3B82F6',
+        lineWidth: 2,
+        lineStyle: LineStyle.Dashed,
+        axisLabelVisible: true,
+        title: 'Entry',
+      });
+      if (position.liquidationPrice && position.liquidationPrice > 0) {
+        replaySeries.createPriceLine({
+          price: position.liquidationPrice,
+          color: '#EF4444',
+          lineWidth: 2,
+          lineStyle: LineStyle.Dashed,
+          axisLabelVisible: true,
+          title: 'Liq',
+        });
+      }
+
+      candleSeriesRef.current = replaySeries;
+
+      const lastCandle = visibleCandles[visibleCandles.length - 1];
+      setCurrentPrice(lastCandle.close);
+      setPriceChange(((lastCandle.close - position.entryPrice) / position.entryPrice) * 100);
+
+    } else if (isSimulating && priceHistory.length > 0) {
       // Simulation mode - show line chart
       const lineSeries = chart.addLineSeries({
         color: '#A855F7', // Purple for simulation
@@ -164,11 +225,47 @@ export const PriceChart = ({
           time: msToSeconds(point.time || Date.now() - (priceHistory.length - index) * 60000) as any,
           value: point.price,
         }))
-        .sort((a, b) => (a.time as number) - (b.time as number));
+        .sort((a, b) => (a.time as number) - (b.time as number))
+        // Points closer than a second apart collapse onto the same chart time
+        .filter((point, index, points) => index === points.length - 1 || point.time !== points[index + 1].time);
 
       lineSeries.setData(lineData);
       lineSeriesRef.current = lineSeries;
 
+      // Mark every liquidation engine action, or where the path first touched
+      // liquidation when the engine was not modeled; the path stops there
+      const markerPosition = position.side === 'long' ? 'belowBar' : 'aboveBar';
+      const markerShape = position.side === 'long' ? 'arrowUp' : 'arrowDown';
+      const liquidationSteps = simulationState.liquidationProcess?.steps ?? [];
+      const pathLiquidation = simulationState.pathLiquidation;
+      if (liquidationSteps.length > 0) {
+        lineSeries.setMarkers(liquidationSteps.map((step) => ({
+          time: msToSeconds(step.time) as any,
+          position: markerPosition,
+          color: step.kind === 'partial' ? '#F97316' : '#EF4444',
+          shape: markerShape,
+          text: step.kind === 'backstop' ? 'BACKSTOP' : step.kind === 'full' ? 'LIQ' : `-${Number(step.sizeClosed.toPrecision(3))}`,
+        })));
+      } else if (pathLiquidation) {
+        lineSeries.setMarkers([{
+          time: msToSeconds(pathLiquidation.time) as any,
+          position: markerPosition,
+          color: '#EF4444',
+          shape: markerShape,
+          text: 'LIQ',
+        }]);
+      }
+      if (simulationState.liquidationPrice && simulationState.liquidationPrice > 0) {
+        lineSeries.createPriceLine({
+          price: simulationState.liquidationPrice,
+          color: '#EF4444',
+          lineWidth: 2,
+          lineStyle: LineStyle.Dashed,
+          axisLabelVisible: true,
+          title: 'Liq',
+        });
+      }
+
       // Set current price from simulation
       const lastPrice = simulationState.simulatedPrice ?? position.currentPrice;
       setCurrentPrice(lastPrice);
@@ -236,7 +333,7 @@ export const PriceChart = ({
     // Fit content to view
     chart.timeScale().fitContent();
 
-  }, [candleData, priceHistory, position, simulationState]);
+  }, [candleData, priceHistory, replay, replayStep, position, simulationState]);
 
   // Loading state
   if (isLoadingCandles) {
@@ -281,7 +378,7 @@ export const PriceChart = ({
       <div className="flex items-center justify-between mb-3">
         <div>
           <h3 className="text-gray-400 text-xs font-medium uppercase tracking-wide">
-            {simulationState.isSimulating ? 'Simulated Price' : 'Price Chart'}
+            {replay ? `Replay: ${replay.label}` : simulationState.isSimulating ? 'Simulated Price' : 'Price Chart'}
           </h3>
           <div className="text-gray-100 text-lg font-bold font-mono mt-0.5">
             {formatPrice(displayPrice)}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { RequestStatusBadgeProps } from '../types';
+import { useRequestStatus } from '../hooks/useRequestStatus';
+
+/**
+ * Shown only while requests are being throttled or retried, so a slow load
+ * reads as "waiting on the API" rather than as an error
+ */
+export const RequestStatusBadge = ({ client }: RequestStatusBadgeProps) => {
+  const { queued, retrying, rateLimitedUntil } = useRequestStatus(client);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown while the API is refusing us
+  useEffect(() => {
+    if (rateLimitedUntil === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [rateLimitedUntil]);
+
+  if (rateLimitedUntil === null && retrying === 0) return null;
+
+  const seconds = rateLimitedUntil !== null ? Math.max(Math.ceil((rateLimitedUntil - now) / 1000), 0) : null;
+  const label = seconds !== null
+    ? `Rate limited, retrying${seconds > 0 ? ` in ${seconds}s` : ''}`
+    : 'Connection issue, retrying';
+
+  return (
+    <div
+      className="flex items-center gap-1.5 h-10 px-3 rounded-md bg-amber-950/40 border border-amber-800/50
+                 text-amber-400 text-xs font-semibold whitespace-nowrap"
+      title={queued > 0 ? `${queued} request${queued === 1 ? '' : 's'} queued` : undefined}
+    >
+      <div className="w-3 h-3 border-2 border-amber-400/30 border-t-amber-400 rounded-full animate-spin" />
+      {label}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { SafeSizePanelProps, SafeSizeMode } from '../types';
+import { formatCurrency } from '../services/calculations';
+
+const movePresets: Record<SafeSizeMode, number[]> = {
+  move: [10, 20, 35],
+  sigma: [2, 3, 5],
+};
+
+export const SafeSizePanel = ({
+  coins,
+  canRun,
+  isRunning,
+  onRun,
+  result,
+  error,
+}: SafeSizePanelProps) => {
+  const [coin, setCoin] = useState('');
+  const [side, setSide] = useState<'long' | 'short'>('long');
+  const [mode, setMode] = useState<SafeSizeMode>('sigma');
+  const [value, setValue] = useState('3');
+
+  const normalizedCoin = coin.trim().toUpperCase();
+  const parsedValue = parseFloat(value);
+  const isReady = canRun && !isRunning && !!normalizedCoin && parsedValue > 0;
+
+  const handleModeChange = (next: SafeSizeMode) => {
+    setMode(next);
+    setValue(String(next === 'sigma' ? 3 : 20));
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 px-2.5 py-1 text-xs font-bold rounded transition-all ${
+      active ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+    }`;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Max Safe Size</h3>
+        <span className="text-xs text-gray-500">Sizing rule</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={coin}
+          onChange={(e) => setCoin(e.target.value)}
+          placeholder={coins[0] ? `Coin (e.g. ${coins[0]})` : 'Coin'}
+          list="safe-size-coins"
+          className="input-field w-full text-sm uppercase"
+        />
+        <datalist id="safe-size-coins">
+          {coins.map((c) => <option key={c} value={c} />)}
+        </datalist>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          <button onClick={() => setSide('long')} className={toggleClass(side === 'long')}>Long</button>
+          <button onClick={() => setSide('short')} className={toggleClass(side === 'short')}>Short</button>
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          <button onClick={() => handleModeChange('sigma')} className={toggleClass(mode === 'sigma')}>σ daily</button>
+          <button onClick={() => handleModeChange('move')} className={toggleClass(mode === 'move')}>% move</button>
+        </div>
+        <input
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={mode === 'sigma' ? 'Sigmas' : 'Move %'}
+          className="input-field w-full text-sm"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        {movePresets[mode].map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setValue(String(preset))}
+            className={`flex-1 py-1 rounded-lg text-xs font-bold mono border transition-all duration-200 ${
+              value === String(preset)
+                ? 'bg-red-950/40 text-red-400 border-red-900/50'
+                : 'bg-gray-900/50 text-gray-400 border-gray-800/50 hover:text-gray-300'
+            }`}
+          >
+            {mode === 'sigma' ? `${preset}σ` : `${preset}%`}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onRun({ coin: normalizedCoin, side, mode, value: parsedValue })}
+        disabled={!isReady}
+        className="btn-primary w-full py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRunning ? 'Loading volatility...' : 'Solve'}
+      </button>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {result && (
+        <div className="border-t border-gray-800/50 pt-3 space-y-1.5 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-500">
+              {result.coin} {result.side} survives {result.side === 'long' ? '-' : '+'}{result.adverseMove.toFixed(1)}%
+              {result.dailyVolatility !== null && ` (σ ${(result.dailyVolatility * 100).toFixed(1)}%/day)`}
+            </span>
+            <span className="mono text-gray-400">to {formatCurrency(result.targetPrice)}</span>
+          </div>
+          {result.survivalBuffer <= 0 ? (
+            <p className="text-red-400">The account is already liquidated at this move — no room to add</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <div className="text-gray-500 mb-1">Max Size</div>
+                  <div className="font-mono font-bold text-white">{result.maxSize.toFixed(4)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500 mb-1">Notional</div>
+                  <div className="font-mono font-bold text-white">{formatCurrency(result.maxNotional)}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-gray-500 mb-1">Leverage</div>
+                  <div className="font-mono font-bold text-white">{result.maxLeverage.toFixed(1)}x</div>
+                </div>
+              </div>
+              <p className="text-gray-500">
+                {result.limitedBy === 'margin'
+                  ? 'Capped by free collateral at the asset max leverage'
+                  : 'Limited by surviving the move with current cross exposure'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
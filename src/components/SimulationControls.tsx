@@ -1,10 +1,18 @@
 import { useState } from 'react';
-import { SimulationControlsProps } from '../types';
+import { SimulationControlsProps, PathModelType } from '../types';
+import { PATH_MODEL_LABELS, createSeed } from '../services/pathModels';
+
+const pathModels: PathModelType[] = ['gbm', 'jumpDiffusion', 'garch', 'bootstrap'];
 
 export const SimulationControls = ({
   onSimulate,
   isSimulating,
   onReset,
+  pathModel,
+  onPathModelChange,
+  seed,
+  onSeedChange,
+  isCalibrated,
 }: SimulationControlsProps) => {
   const [customPercent, setCustomPercent] = useState('');
 
@@ -24,10 +32,13 @@ export const SimulationControls = ({
 
   const quickPresets = [-5, -3, 3, 5];
 
+  // A price can fall at most 100%, and only to zero
+  const parsedPercent = parseFloat(customPercent);
+  const isCustomValid = !isNaN(parsedPercent) && parsedPercent !== 0 && parsedPercent > -100;
+
   const handleCustomSimulate = () => {
-    const value = parseFloat(customPercent);
-    if (!isNaN(value) && value !== 0) {
-      onSimulate(value);
+    if (isCustomValid) {
+      onSimulate(parsedPercent);
       setCustomPercent('');
     }
   };
@@ -146,6 +157,53 @@ export const SimulationControls = ({
         </div>
       </div>
 
+      {/* Path Model */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Path Model</p>
+          <span className="text-xs text-gray-600">
+            {isCalibrated ? 'Calibrated from 30d candles' : 'Generic parameters'}
+          </span>
+        </div>
+        <div className="flex gap-0.5 bg-gray-950/50 rounded-md p-0.5 border border-gray-800/50">
+          {pathModels.map((model) => (
+            <button
+              key={model}
+              onClick={() => onPathModelChange(model)}
+              className={`flex-1 px-2 py-1 text-xs font-bold rounded transition-all ${
+                pathModel === model ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800/50'
+              }`}
+            >
+              {PATH_MODEL_LABELS[model]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500 font-semibold">Seed</span>
+          <input
+            type="number"
+            value={seed ?? ''}
+            onChange={(e) => {
+              if (e.target.value === '') {
+                onSeedChange(null);
+                return;
+              }
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value)) onSeedChange(value);
+            }}
+            placeholder="Random"
+            className="input-field flex-1 text-xs mono py-1"
+          />
+          <button
+            onClick={() => onSeedChange(createSeed())}
+            className="btn-glass text-xs px-3 py-1"
+            title="New random path"
+          >
+            Re-roll
+          </button>
+        </div>
+      </div>
+
       {/* Custom Input */}
       <div className="flex gap-2.5">
         <div className="relative flex-1">
@@ -162,15 +220,19 @@ export const SimulationControls = ({
         </div>
         <button
           onClick={handleCustomSimulate}
-          disabled={!customPercent}
+          disabled={!isCustomValid}
           className="btn-primary px-6 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Simulate
         </button>
       </div>
 
+      {customPercent && parsedPercent <= -100 && (
+        <p className="text-xs text-red-400">A price cannot fall 100% or more; enter a move above -100%.</p>
+      )}
+
       {/* Risk Warning */}
-      {customPercent && parseFloat(customPercent) < -30 && (
+      {customPercent && parsedPercent < -30 && parsedPercent > -100 && (
         <div className="p-3.5 bg-red-950/30 border border-red-900/40 rounded-xl animate-fade-in">
           <div className="flex items-start gap-2.5">
             <svg className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,50 @@
+import { SpotBalance } from '../types';
+import { formatCurrency } from '../services/calculations';
+import { calculateSpotValue } from '../services/spot';
+
+interface SpotBalanceListProps {
+  balances: SpotBalance[];
+}
+
+export const SpotBalanceList = ({ balances }: SpotBalanceListProps) => {
+  if (balances.length === 0) return null;
+
+  const totalValue = calculateSpotValue(balances);
+
+  return (
+    <div className="rounded-lg p-4 bg-gray-950/40 border border-gray-800/40">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Spot</span>
+        <span className="text-sm font-bold text-gray-100 mono">{formatCurrency(totalValue)}</span>
+      </div>
+
+      <div className="space-y-2">
+        {balances.map((balance) => (
+          <div key={balance.coin} className="flex items-center justify-between text-xs">
+            <div>
+              <span className="text-white font-semibold">{balance.coin}</span>
+              <span className="ml-2 text-gray-500 mono">{balance.total.toFixed(4)}</span>
+              {balance.hold > 0 && (
+                <span className="ml-1 text-gray-600 mono">({balance.hold.toFixed(4)} in orders)</span>
+              )}
+            </div>
+            <div className="text-right mono">
+              {balance.price !== null ? (
+                <>
+                  <span className="text-gray-300">{formatCurrency(balance.value)}</span>
+                  {balance.unrealizedPnl !== 0 && (
+                    <span className={`ml-2 ${balance.unrealizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {balance.unrealizedPnl >= 0 ? '+' : ''}{formatCurrency(balance.unrealizedPnl)}
+                    </span>
+                  )}
+                </>
+              ) : (
+                <span className="text-gray-600">Unpriced</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -7,12 +7,6 @@ import {
   LedgerUpdate,
   TwapSliceFill,
 } from '../types';
-import {
-  fetchOpenOrders,
-  fetchUserFills,
-  fetchUserLedgerUpdates,
-  fetchTwapFills,
-} from '../services/hyperliquid';
 
 // Format number with commas
 const formatNumber = (value: string | number, decimals: number = 2): string => {
@@ -56,7 +50,7 @@ const TABS: { id: TradingActivityTab; label: string }[] = [
 // Items per page for load more
 const ITEMS_PER_PAGE = 20;
 
-export const TradingActivity = ({ address }: TradingActivityProps) => {
+export const TradingActivity = ({ client, address }: TradingActivityProps) => {
   const [activeTab, setActiveTab] = useState<TradingActivityTab>('orders');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -95,9 +89,9 @@ export const TradingActivity = ({ address }: TradingActivityProps) => {
     if (!loadedTabs.has(activeTab)) {
       loadTabData(activeTab);
     }
-  }, [activeTab, address]);
+  }, [activeTab, address, client]);
 
-  // Reset loaded tabs and pagination when address changes
+  // Reset loaded tabs and pagination when address or network changes
   useEffect(() => {
     setLoadedTabs(new Set());
     setVisibleCounts({
@@ -107,7 +101,7 @@ export const TradingActivity = ({ address }: TradingActivityProps) => {
       funds: ITEMS_PER_PAGE,
       twap: ITEMS_PER_PAGE,
     });
-  }, [address]);
+  }, [address, client]);
 
   const loadTabData = async (tab: TradingActivityTab) => {
     if (!address) return;
@@ -118,27 +112,27 @@ export const TradingActivity = ({ address }: TradingActivityProps) => {
     try {
       switch (tab) {
         case 'orders':
-          const orders = await fetchOpenOrders(address);
+          const orders = await client.fetchOpenOrders(address);
           setOpenOrders(orders);
           break;
         case 'fills':
-          const userFills = await fetchUserFills(address);
+          const userFills = await client.fetchUserFills(address);
           setFills(userFills);
           break;
         case 'trades':
           // Trades are derived from fills - filter for closed positions
           if (!loadedTabs.has('fills')) {
-            const allFills = await fetchUserFills(address);
+            const allFills = await client.fetchUserFills(address);
             setFills(allFills);
             setLoadedTabs(prev => new Set(prev).add('fills'));
           }
           break;
         case 'funds':
-          const ledger = await fetchUserLedgerUpdates(address);
+          const ledger = await client.fetchUserLedgerUpdates(address);
           setLedgerUpdates(ledger);
           break;
         case 'twap':
-          const twap = await fetchTwapFills(address);
+          const twap = await client.fetchTwapFills(address);
           setTwapFills(twap);
           break;
       }
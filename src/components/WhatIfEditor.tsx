@@ -0,0 +1,193 @@
+import { useState, useEffect, useMemo } from 'react';
+import { WhatIfEditorProps } from '../types';
+import { formatCurrency } from '../services/calculations';
+import { applyPositionEdit, NO_EDIT } from '../services/whatIf';
+
+const sizePresets = [-50, -25, 25, 50, 100];
+
+export const WhatIfEditor = ({
+  position,
+  crossPortfolio,
+  prices,
+  marginModel,
+}: WhatIfEditorProps) => {
+  const [sizeChange, setSizeChange] = useState('');
+  const [executionPrice, setExecutionPrice] = useState('');
+  const [marginChange, setMarginChange] = useState('');
+  const [leverage, setLeverage] = useState('');
+
+  // Start from a clean edit whenever another position is selected
+  useEffect(() => {
+    setSizeChange('');
+    setExecutionPrice('');
+    setMarginChange('');
+    setLeverage('');
+  }, [position.coin]);
+
+  const isIsolated = position.marginMode === 'isolated';
+  const parse = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  const before = useMemo(
+    () => applyPositionEdit(
+      position,
+      { ...NO_EDIT, executionPrice: position.currentPrice },
+      crossPortfolio,
+      prices,
+      marginModel
+    ),
+    [position, crossPortfolio, prices, marginModel]
+  );
+
+  const after = useMemo(
+    () => applyPositionEdit(
+      position,
+      {
+        sizeChange: parse(sizeChange),
+        executionPrice: parse(executionPrice) || position.currentPrice,
+        marginChange: isIsolated ? parse(marginChange) : 0,
+        leverage: parse(leverage) > 0 ? parse(leverage) : null,
+      },
+      crossPortfolio,
+      prices,
+      marginModel
+    ),
+    [position, crossPortfolio, prices, marginModel, sizeChange, executionPrice, marginChange, leverage, isIsolated]
+  );
+
+  const isEdited = sizeChange !== '' || marginChange !== '' || leverage !== '';
+
+  const rows = [
+    { label: 'Size', before: before.position.size.toFixed(4), after: after.position.size.toFixed(4) },
+    { label: 'Entry', before: formatCurrency(before.position.entryPrice), after: formatCurrency(after.position.entryPrice) },
+    { label: 'Margin', before: formatCurrency(before.position.margin), after: formatCurrency(after.position.margin) },
+    {
+      label: 'Liquidation',
+      before: before.position.liquidationPrice ? formatCurrency(before.position.liquidationPrice) : '—',
+      after: after.position.liquidationPrice ? formatCurrency(after.position.liquidationPrice) : '—',
+    },
+    {
+      label: 'Distance',
+      before: isFinite(before.distanceToLiquidation) ? `${before.distanceToLiquidation.toFixed(2)}%` : '—',
+      after: isFinite(after.distanceToLiquidation) ? `${after.distanceToLiquidation.toFixed(2)}%` : '—',
+    },
+  ];
+
+  const getDistanceClass = () => {
+    if (!isEdited) return 'text-gray-300';
+    return after.distanceToLiquidation < before.distanceToLiquidation ? 'text-red-400' : 'text-emerald-400';
+  };
+
+  return (
+    <div className="glass-card p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">What-If Editor</h3>
+        {isEdited ? (
+          <button
+            onClick={() => {
+              setSizeChange('');
+              setExecutionPrice('');
+              setMarginChange('');
+              setLeverage('');
+            }}
+            className="btn-glass text-sm px-4 py-2"
+          >
+            Clear
+          </button>
+        ) : (
+          <span className="text-xs text-gray-500">Hypothetical — live data untouched</span>
+        )}
+      </div>
+
+      {/* Size change */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          {sizePresets.map((percent) => (
+            <button
+              key={percent}
+              onClick={() => setSizeChange(String((position.size * percent) / 100))}
+              className={`flex-1 py-1.5 rounded-lg text-xs font-bold mono border transition-all duration-200 ${
+                percent < 0
+                  ? 'bg-orange-950/30 text-orange-400 border-orange-900/40 hover:bg-orange-900/20'
+                  : 'bg-blue-950/30 text-blue-400 border-blue-900/40 hover:bg-blue-900/20'
+              }`}
+            >
+              {percent > 0 ? '+' : ''}{percent}%
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            value={sizeChange}
+            onChange={(e) => setSizeChange(e.target.value)}
+            placeholder={`Size ± ${position.coin}`}
+            className="input-field w-full text-sm"
+          />
+          <input
+            type="number"
+            value={executionPrice}
+            onChange={(e) => setExecutionPrice(e.target.value)}
+            placeholder={`@ ${position.currentPrice.toFixed(2)}`}
+            className="input-field w-full text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Margin and leverage */}
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          value={marginChange}
+          onChange={(e) => setMarginChange(e.target.value)}
+          placeholder={isIsolated ? 'Margin ± USD' : 'Margin (isolated only)'}
+          disabled={!isIsolated}
+          className="input-field w-full text-sm disabled:opacity-50"
+        />
+        <input
+          type="number"
+          value={leverage}
+          onChange={(e) => setLeverage(e.target.value)}
+          placeholder={`Leverage (${position.leverage}x)`}
+          className="input-field w-full text-sm"
+        />
+      </div>
+
+      {/* Before / after */}
+      <div className="border-t border-gray-800/50 pt-3 space-y-1.5 text-xs">
+        <div className="grid grid-cols-3 text-gray-500">
+          <span />
+          <span className="text-right">Now</span>
+          <span className="text-right">After</span>
+        </div>
+        {rows.map((row) => (
+          <div key={row.label} className="grid grid-cols-3">
+            <span className="text-gray-500">{row.label}</span>
+            <span className="text-right mono text-gray-400">{row.before}</span>
+            <span className={`text-right mono font-bold ${
+              row.label === 'Distance' ? getDistanceClass() : row.before !== row.after ? 'text-white' : 'text-gray-300'
+            }`}>
+              {row.after}
+            </span>
+          </div>
+        ))}
+        {after.realizedPnl !== 0 && (
+          <div className="grid grid-cols-3">
+            <span className="text-gray-500">Realized</span>
+            <span />
+            <span className={`text-right mono font-bold ${after.realizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {formatCurrency(after.realizedPnl)}
+            </span>
+          </div>
+        )}
+        {!isIsolated && leverage !== '' && (
+          <p className="text-gray-500 pt-1">
+            Cross liquidation depends on account equity, so leverage only changes the margin shown.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
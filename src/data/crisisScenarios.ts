@@ -0,0 +1,83 @@
+import { CrisisScenarioLibrary } from '../types';
+
+/**
+ * Curated crypto stress events. Each path is the cumulative percent change of
+ * the daily close from the first day of the event (approximate, rounded).
+ * Bump the version whenever a path or scenario changes so saved results can
+ * be told apart.
+ */
+export const CRISIS_SCENARIO_LIBRARY: CrisisScenarioLibrary = {
+  version: '2024.1',
+  scenarios: [
+    {
+      id: 'covid-2020',
+      name: 'March 2020 COVID Crash',
+      startDate: '2020-03-07',
+      endDate: '2020-03-16',
+      description: 'Global risk-off; BitMEX liquidation cascade on Black Thursday.',
+      assets: {
+        BTC: [0, -9.8, -10.9, -11.1, -11.1, -44.2, -37.5, -41.6, -39.4, -43.7],
+        ETH: [0, -16.0, -15.2, -15.6, -18.1, -52.7, -43.9, -47.7, -47.3, -53.6],
+        ALT: [0, -14.0, -15.0, -16.0, -19.0, -55.0, -45.0, -50.0, -49.0, -56.0],
+      },
+    },
+    {
+      id: 'may-2021',
+      name: 'May 2021 Leverage Flush',
+      startDate: '2021-05-11',
+      endDate: '2021-05-23',
+      description: 'Tesla drops BTC payments and China bans mining; record futures liquidations on May 19.',
+      assets: {
+        BTC: [0, -13.3, -12.3, -12.0, -17.5, -18.1, -23.2, -24.3, -35.3, -28.4, -34.2, -33.9, -38.8],
+        ETH: [0, -8.2, -10.8, -2.2, -12.7, -13.9, -21.3, -18.9, -41.5, -33.3, -41.7, -44.8, -49.6],
+        SOL: [0, -8.0, -12.0, -4.0, -12.0, -15.0, -22.0, -20.0, -46.0, -35.0, -42.0, -45.0, -50.0],
+        ALT: [0, -10.0, -14.0, -6.0, -15.0, -18.0, -26.0, -24.0, -48.0, -38.0, -45.0, -48.0, -53.0],
+      },
+    },
+    {
+      id: 'june-2022',
+      name: 'June 2022 Celsius / 3AC',
+      startDate: '2022-06-10',
+      endDate: '2022-06-18',
+      description: 'Celsius freezes withdrawals and Three Arrows Capital unwinds; BTC breaks below $20K.',
+      assets: {
+        BTC: [0, -2.4, -8.6, -22.7, -23.7, -22.3, -29.9, -29.6, -34.7],
+        ETH: [0, -7.8, -13.3, -27.1, -27.1, -25.9, -35.5, -34.3, -40.4],
+        SOL: [0, -6.0, -11.0, -31.0, -32.0, -25.0, -33.0, -31.0, -34.0],
+        ALT: [0, -6.0, -12.0, -30.0, -31.0, -27.0, -36.0, -35.0, -40.0],
+      },
+    },
+    {
+      id: 'ftx-2022',
+      name: 'FTX Collapse',
+      startDate: '2022-11-06',
+      endDate: '2022-11-14',
+      description: 'Run on FTX after the Alameda balance sheet leak; Solana ecosystem hit hardest.',
+      assets: {
+        BTC: [0, -1.4, -11.3, -24.0, -15.8, -18.3, -19.6, -21.9, -20.5],
+        ETH: [0, 0, -15.3, -29.9, -17.2, -17.8, -20.1, -22.3, -21.0],
+        SOL: [0, -4.6, -24.6, -50.8, -42.2, -48.9, -56.3, -56.9, -56.6],
+        ALT: [0, -3.0, -16.0, -30.0, -20.0, -22.0, -25.0, -27.0, -26.0],
+      },
+    },
+  ],
+};
+
+/**
+ * Scenario asset used for coins without their own path, before falling back
+ * to the generic altcoin basket
+ */
+export const SCENARIO_PROXIES: Record<string, string> = {
+  WBTC: 'BTC',
+  STETH: 'ETH',
+  ARB: 'ETH',
+  OP: 'ETH',
+  MATIC: 'ETH',
+  POL: 'ETH',
+  ETC: 'ETH',
+  JTO: 'SOL',
+  JUP: 'SOL',
+  PYTH: 'SOL',
+  BONK: 'SOL',
+  WIF: 'SOL',
+};
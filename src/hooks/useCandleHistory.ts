@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { CandleData, HyperliquidClient } from '../types';
+
+interface UseCandleHistoryOptions {
+  client: HyperliquidClient;
+  coins: string[];
+  interval: string;
+  lookbackHours: number;
+  enabled?: boolean;
+}
+
+interface UseCandleHistoryReturn {
+  candlesByCoin: Record<string, CandleData[]>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load candle history for several coins at once.
+ * A coin whose candles fail to load is left out instead of failing the whole set.
+ */
+export const useCandleHistory = ({
+  client,
+  coins,
+  interval,
+  lookbackHours,
+  enabled = true,
+}: UseCandleHistoryOptions): UseCandleHistoryReturn => {
+  const [candlesByCoin, setCandlesByCoin] = useState<Record<string, CandleData[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so a new array with the same coins does not refetch
+  const coinsKey = [...new Set(coins)].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !coinsKey) {
+      setCandlesByCoin({});
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const coinList = coinsKey.split(',');
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const results = await Promise.all(
+        coinList.map((coin) =>
+          client.fetchCandleData(coin, interval, lookbackHours)
+            .then((candles) => ({ coin, candles }))
+            .catch((err) => {
+              console.error(`Failed to load candle history for ${coin}:`, err);
+              return { coin, candles: null };
+            })
+        )
+      );
+
+      if (cancelled) return;
+
+      const loaded: Record<string, CandleData[]> = {};
+      const failed: string[] = [];
+      results.forEach(({ coin, candles }) => {
+        if (candles) {
+          loaded[coin] = candles;
+        } else {
+          failed.push(coin);
+        }
+      });
+
+      setCandlesByCoin(loaded);
+      setError(failed.length > 0 ? `No price history for ${failed.join(', ')}` : null);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, coinsKey, interval, lookbackHours, enabled]);
+
+  return {
+    candlesByCoin,
+    isLoading,
+    error,
+  };
+};
+
+export default useCandleHistory;
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { FundingRecord, PredictedFunding, HyperliquidClient } from '../types';
+
+interface UseFundingRatesOptions {
+  client: HyperliquidClient;
+  coins: string[];
+  lookbackHours: number;
+  enabled?: boolean;
+}
+
+interface UseFundingRatesReturn {
+  historyByCoin: Record<string, FundingRecord[]>;
+  predicted: Record<string, PredictedFunding[]>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load funding history for several coins plus the predicted rates of all coins.
+ * A coin whose history fails to load is left out instead of failing the whole set.
+ */
+export const useFundingRates = ({
+  client,
+  coins,
+  lookbackHours,
+  enabled = true,
+}: UseFundingRatesOptions): UseFundingRatesReturn => {
+  const [historyByCoin, setHistoryByCoin] = useState<Record<string, FundingRecord[]>>({});
+  const [predicted, setPredicted] = useState<Record<string, PredictedFunding[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so a new array with the same coins does not refetch
+  const coinsKey = [...new Set(coins)].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !coinsKey) {
+      setHistoryByCoin({});
+      setPredicted({});
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const coinList = coinsKey.split(',');
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const [predictions, results] = await Promise.all([
+        client.fetchPredictedFundings().catch((err) => {
+          console.error('Failed to load predicted funding:', err);
+          return null;
+        }),
+        Promise.all(
+          coinList.map((coin) =>
+            client.fetchFundingHistory(coin, lookbackHours)
+              .then((history) => ({ coin, history }))
+              .catch((err) => {
+                console.error(`Failed to load funding history for ${coin}:`, err);
+                return { coin, history: null };
+              })
+          )
+        ),
+      ]);
+
+      if (cancelled) return;
+
+      const loaded: Record<string, FundingRecord[]> = {};
+      const failed: string[] = [];
+      results.forEach(({ coin, history }) => {
+        if (history) {
+          loaded[coin] = history;
+        } else {
+          failed.push(coin);
+        }
+      });
+
+      setHistoryByCoin(loaded);
+      setPredicted(predictions ?? {});
+      setError(failed.length > 0 ? `No funding history for ${failed.join(', ')}` : null);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, coinsKey, lookbackHours, enabled]);
+
+  return {
+    historyByCoin,
+    predicted,
+    isLoading,
+    error,
+  };
+};
+
+export default useFundingRates;
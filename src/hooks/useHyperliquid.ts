@@ -1,6 +1,15 @@
-import { useState, useCallback } from 'react';
-import { Position, HyperliquidClearinghouseState } from '../types';
-import { fetchUserPositions, fetchAllPrices, transformPositions } from '../services/hyperliquid';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  Position,
+  HyperliquidClearinghouseState,
+  MarginModel,
+  OpenOrder,
+  SpotBalance,
+  HyperliquidClient,
+} from '../types';
+import { transformPositions } from '../services/hyperliquid';
+import { buildMarginModel } from '../services/margin';
+import { buildSpotPrices, toSpotBalances } from '../services/spot';
 
 interface UseHyperliquidReturn {
   positions: Position[];
@@ -8,13 +17,35 @@ interface UseHyperliquidReturn {
   error: string | null;
   fetchPositions: (address: string) => Promise<void>;
   accountData: HyperliquidClearinghouseState | null;
+  marginModel: MarginModel | null;
+  openOrders: OpenOrder[];
+  spotBalances: SpotBalance[];
 }
 
-export const useHyperliquid = (): UseHyperliquidReturn => {
+export const useHyperliquid = (client: HyperliquidClient): UseHyperliquidReturn => {
   const [positions, setPositions] = useState<Position[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [accountData, setAccountData] = useState<HyperliquidClearinghouseState | null>(null);
+  const [marginModel, setMarginModel] = useState<MarginModel | null>(null);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [spotBalances, setSpotBalances] = useState<SpotBalance[]>([]);
+
+  // Bumped by every fetch and environment switch; a response whose id is no
+  // longer current belongs to a replaced request and is dropped
+  const requestIdRef = useRef(0);
+
+  // Another environment's account data does not carry over
+  useEffect(() => {
+    requestIdRef.current++;
+    setIsLoading(false);
+    setPositions([]);
+    setError(null);
+    setAccountData(null);
+    setMarginModel(null);
+    setOpenOrders([]);
+    setSpotBalances([]);
+  }, [client]);
 
   const fetchPositions = useCallback(async (address: string) => {
     if (!address) {
@@ -22,37 +53,71 @@ export const useHyperliquid = (): UseHyperliquidReturn => {
       return;
     }
 
+    const requestId = ++requestIdRef.current;
+    const isStale = () => requestId !== requestIdRef.current;
+
     setIsLoading(true);
     setError(null);
 
     try {
-      // Fetch clearinghouse state and prices in parallel
-      const [clearinghouseState, prices] = await Promise.all([
-        fetchUserPositions(address),
-        fetchAllPrices(),
+      // Fetch clearinghouse state, prices, asset metadata, open orders and spot balances
+      // in parallel. Everything past the perp account and prices only adds context,
+      // so positions still load without it.
+      const [clearinghouseState, prices, metaAndCtxs, orders, spotState, spotMetaAndCtxs] = await Promise.all([
+        client.fetchUserPositions(address),
+        client.fetchAllPrices(),
+        client.fetchMetaAndAssetCtxs().catch((metaError) => {
+          console.error('Failed to load asset metadata:', metaError);
+          return null;
+        }),
+        client.fetchOpenOrders(address).catch((ordersError) => {
+          console.error('Failed to load open orders:', ordersError);
+          return [];
+        }),
+        client.fetchSpotClearinghouseState(address).catch((spotError) => {
+          console.error('Failed to load spot balances:', spotError);
+          return null;
+        }),
+        client.fetchSpotMetaAndAssetCtxs().catch((spotMetaError) => {
+          console.error('Failed to load spot metadata:', spotMetaError);
+          return null;
+        }),
       ]);
 
+      if (isStale()) return;
+
+      const model = metaAndCtxs ? buildMarginModel(metaAndCtxs[0], metaAndCtxs[1]) : null;
+
       // Store the raw account data for Portfolio Summary
       setAccountData(clearinghouseState);
+      setMarginModel(model);
+      setOpenOrders(orders);
+      const balances = spotState
+        ? toSpotBalances(spotState, spotMetaAndCtxs ? buildSpotPrices(spotMetaAndCtxs) : {})
+        : [];
+      setSpotBalances(balances);
 
       // Transform to our internal Position format
-      const transformedPositions = transformPositions(clearinghouseState, prices);
-      
-      if (transformedPositions.length === 0) {
+      const transformedPositions = transformPositions(clearinghouseState, prices, model);
+      setPositions(transformedPositions);
+
+      // A spot-only account still loaded fine
+      if (transformedPositions.length === 0 && balances.length === 0) {
         setError('No open positions found for this address');
-        setPositions([]);
-      } else {
-        setPositions(transformedPositions);
       }
     } catch (err) {
+      if (isStale()) return;
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch positions';
       setError(errorMessage);
       setPositions([]);
       setAccountData(null);
+      setMarginModel(null);
+      setOpenOrders([]);
+      setSpotBalances([]);
     } finally {
-      setIsLoading(false);
+      if (!isStale()) setIsLoading(false);
     }
-  }, []);
+  }, [client]);
 
   return {
     positions,
@@ -60,6 +125,9 @@ export const useHyperliquid = (): UseHyperliquidReturn => {
     error,
     fetchPositions,
     accountData,
+    marginModel,
+    openOrders,
+    spotBalances,
   };
 };
 
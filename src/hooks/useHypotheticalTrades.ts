@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HypotheticalTrade, HypotheticalTradeInput, HyperliquidEnvironment } from '../types';
+import { Validator, validate, string, number, oneOf, object } from '../services/validation';
+
+interface UseHypotheticalTradesReturn {
+  trades: HypotheticalTrade[];
+  addTrade: (trade: HypotheticalTradeInput) => void;
+  removeTrade: (id: string) => void;
+}
+
+// Mainnet keeps the original key, like the saved address, so earlier plans still load
+const storageKey = (environment: HyperliquidEnvironment, address: string) =>
+  environment === 'mainnet'
+    ? `hyperliquid_hypotheticals_${address.toLowerCase()}`
+    : `hyperliquid_hypotheticals_${environment}_${address.toLowerCase()}`;
+
+const savedTradeSchema: Validator<HypotheticalTrade> = object({
+  id: string,
+  coin: string,
+  side: oneOf('long', 'short'),
+  size: number,
+  leverage: number,
+  entryPrice: number,
+  marginMode: oneOf('cross', 'isolated'),
+  createdAt: number,
+});
+
+// A plan saved by an older version, or edited by hand, is dropped trade by trade
+const toSavedTrade = (entry: unknown): HypotheticalTrade | null => {
+  try {
+    const trade = validate(entry, savedTradeSchema, 'saved planned trade');
+    return trade.size > 0 && trade.leverage > 0 && trade.entryPrice > 0 ? trade : null;
+  } catch (error) {
+    console.warn('Dropping saved planned trade:', error);
+    return null;
+  }
+};
+
+const loadTrades = (environment: HyperliquidEnvironment, address: string): HypotheticalTrade[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(environment, address));
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(toSavedTrade).filter((trade): trade is HypotheticalTrade => trade !== null);
+  } catch (error) {
+    console.error('Failed to load planned trades:', error);
+    return [];
+  }
+};
+
+/**
+ * Planned trades for an address on one network, persisted in localStorage so
+ * they survive a reload
+ */
+export const useHypotheticalTrades = (
+  environment: HyperliquidEnvironment,
+  address: string | null
+): UseHypotheticalTradesReturn => {
+  const [trades, setTrades] = useState<HypotheticalTrade[]>([]);
+
+  // Swap in the saved plan whenever the network or address changes
+  useEffect(() => {
+    setTrades(address ? loadTrades(environment, address) : []);
+  }, [environment, address]);
+
+  const persist = useCallback((next: HypotheticalTrade[]) => {
+    if (!address) return;
+    if (next.length === 0) {
+      localStorage.removeItem(storageKey(environment, address));
+    } else {
+      localStorage.setItem(storageKey(environment, address), JSON.stringify(next));
+    }
+  }, [environment, address]);
+
+  const addTrade = useCallback((trade: HypotheticalTradeInput) => {
+    setTrades(prev => {
+      const next = [
+        ...prev,
+        { ...trade, id: `${trade.coin}-${Date.now()}`, createdAt: Date.now() },
+      ];
+      persist(next);
+      return next;
+    });
+  }, [persist]);
+
+  const removeTrade = useCallback((id: string) => {
+    setTrades(prev => {
+      const next = prev.filter(trade => trade.id !== id);
+      persist(next);
+      return next;
+    });
+  }, [persist]);
+
+  return {
+    trades,
+    addTrade,
+    removeTrade,
+  };
+};
+
+export default useHypotheticalTrades;
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { L2Book, HyperliquidClient } from '../types';
+
+interface UseOrderBookOptions {
+  client: HyperliquidClient;
+  coin: string | null;
+  refreshMs?: number;
+}
+
+interface UseOrderBookReturn {
+  book: L2Book | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the L2 book for a coin and refresh it periodically
+ */
+export const useOrderBook = ({
+  client,
+  coin,
+  refreshMs = 15000,
+}: UseOrderBookOptions): UseOrderBookReturn => {
+  const [book, setBook] = useState<L2Book | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBook(null);
+    setError(null);
+    if (!coin) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const snapshot = await client.fetchL2Book(coin);
+        if (cancelled) return;
+        setBook(snapshot);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch order book');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    load();
+    const timer = setInterval(load, refreshMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [client, coin, refreshMs]);
+
+  return {
+    book,
+    isLoading,
+    error,
+  };
+};
+
+export default useOrderBook;
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { HyperliquidClient, RequestSchedulerStatus } from '../types';
+
+/**
+ * Live view of a client's request queue: how many calls wait for budget,
+ * how many are backing off, and whether the API is rate limiting us
+ */
+export const useRequestStatus = (client: HyperliquidClient): RequestSchedulerStatus => {
+  const [status, setStatus] = useState<RequestSchedulerStatus>(client.getRequestStatus);
+
+  useEffect(() => {
+    // The queue reports on every request; only re-render when something changed
+    const update = (next: RequestSchedulerStatus) => setStatus((prev) =>
+      prev.queued === next.queued
+        && prev.retrying === next.retrying
+        && prev.rateLimitedUntil === next.rateLimitedUntil
+        ? prev
+        : next
+    );
+    update(client.getRequestStatus());
+    return client.subscribeRequestStatus(update);
+  }, [client]);
+
+  return status;
+};
+
+export default useRequestStatus;
@@ -1,9 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AllMidsResponse } from '../types';
 
-const WS_URL = 'wss://api.hyperliquid.xyz/ws';
-
 interface UseWebSocketOptions {
+  url: string;
   enabled?: boolean;
   onPriceUpdate?: (prices: AllMidsResponse) => void;
   throttleMs?: number; // Throttle updates to prevent UI flicker
@@ -17,10 +16,11 @@ interface UseWebSocketReturn {
 }
 
 export const useWebSocket = ({
+  url,
   enabled = true,
   onPriceUpdate,
   throttleMs = 2000, // Default: update UI every 2 seconds max
-}: UseWebSocketOptions = {}): UseWebSocketReturn => {
+}: UseWebSocketOptions): UseWebSocketReturn => {
   const [prices, setPrices] = useState<AllMidsResponse>({});
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -73,7 +73,7 @@ export const useWebSocket = ({
         wsRef.current.close();
       }
 
-      const ws = new WebSocket(WS_URL);
+      const ws = new WebSocket(url);
       wsRef.current = ws;
 
       ws.onopen = () => {
@@ -111,7 +111,8 @@ export const useWebSocket = ({
       };
 
       ws.onclose = () => {
-        if (!mountedRef.current) return;
+        // A socket replaced after a URL change must not reconnect
+        if (!mountedRef.current || wsRef.current !== ws) return;
         
         setIsConnected(false);
         
@@ -132,7 +133,7 @@ export const useWebSocket = ({
     } catch (e) {
       setError('Failed to connect to WebSocket');
     }
-  }, [enabled, updatePrices]);
+  }, [url, enabled, updatePrices]);
 
   const reconnect = useCallback(() => {
     reconnectAttemptsRef.current = 0;
@@ -140,9 +141,10 @@ export const useWebSocket = ({
     connect();
   }, [connect]);
 
-  // Connect on mount
+  // Connect on mount, and again with fresh prices when the URL changes
   useEffect(() => {
     mountedRef.current = true;
+    setPrices({});
     
     if (enabled) {
       connect();
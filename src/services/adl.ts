@@ -0,0 +1,39 @@
+import { Position, AdlEstimate } from '../types';
+import { calculatePnL, calculateMarginAtRisk } from './calculations';
+
+// Score cutoffs between ADL buckets 1-5. Other traders' positions are not
+// public, so these only approximate where the queue splits
+const ADL_BUCKET_THRESHOLDS = [0.5, 1.5, 3, 6];
+export const TOP_ADL_BUCKET = ADL_BUCKET_THRESHOLDS.length + 1;
+
+/**
+ * Estimate where a position sits in the auto-deleveraging queue at a price,
+ * the live price by default. Only winning positions are deleveraged, ranked
+ * by PnL on posted collateral times effective leverage, so a large win on a
+ * thin cushion goes first. Cross positions are backed by the account's
+ * equity, moved by this position's PnL change.
+ */
+export const estimateAdlRank = (
+  position: Position,
+  crossEquity: number | null,
+  price: number = position.currentPrice
+): AdlEstimate => {
+  const pnl = calculatePnL(position, price);
+  const equity = calculateMarginAtRisk(position, crossEquity) + pnl - position.unrealizedPnl;
+  const collateral = equity - pnl;
+
+  if (pnl <= 0 || equity <= 0 || collateral <= 0) {
+    return { bucket: 0, score: 0, pnlRatio: 0, effectiveLeverage: 0 };
+  }
+
+  const pnlRatio = pnl / collateral;
+  const effectiveLeverage = (position.size * price) / equity;
+  const score = pnlRatio * effectiveLeverage;
+
+  return {
+    bucket: 1 + ADL_BUCKET_THRESHOLDS.filter((threshold) => score >= threshold).length,
+    score,
+    pnlRatio,
+    effectiveLeverage,
+  };
+};
@@ -1,4 +1,23 @@
-import { Position } from '../types';
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  PriceData,
+  MarginTopUpResult,
+  PathLiquidation,
+  PathModelConfig,
+  MarginModel,
+} from '../types';
+import {
+  calculatePortfolioEquity,
+  calculatePortfolioMaintenance,
+  resolveMaintenanceRate,
+  reportedMaintenanceRate,
+} from './portfolio';
+import { createSeed, generateModelReturns } from './pathModels';
+
+// Lowest end price of a generated path, as a fraction of the start
+const MIN_PATH_PRICE_FRACTION = 1e-6;
 
 /**
  * Calculate new price based on percentage change
@@ -11,7 +30,9 @@ export const calculateNewPrice = (
 };
 
 /**
- * Check if position would be liquidated at a given price
+ * Check if position would be liquidated at a given price.
+ * Exact for isolated positions; for cross positions the level only holds
+ * while every other position's price stays where it was.
  */
 export const isPositionLiquidated = (
   position: Position,
@@ -27,15 +48,59 @@ export const isPositionLiquidated = (
 };
 
 /**
- * Calculate P&L at a given price
+ * Margin an isolated position was opened with. `margin` is the bucket's
+ * equity at the current price, so the unrealized PnL is taken back out.
+ */
+export const calculateAllocatedMargin = (position: Position): number =>
+  Math.max(position.margin - position.unrealizedPnl, 0);
+
+/**
+ * Calculate P&L at a given price, plus any funding received (negative = paid).
+ * Measured from entry, an isolated position can lose at most the margin it
+ * was opened with.
  */
 export const calculatePnL = (
   position: Position,
-  newPrice: number
+  newPrice: number,
+  fundingPnl: number = 0
 ): number => {
   const priceDiff = newPrice - position.entryPrice;
   const multiplier = position.side === 'long' ? 1 : -1;
-  return position.size * priceDiff * multiplier;
+  const pnl = position.size * priceDiff * multiplier + fundingPnl;
+
+  if (position.marginMode === 'isolated') {
+    return Math.max(pnl, -calculateAllocatedMargin(position));
+  }
+  return pnl;
+};
+
+/**
+ * Calculate the capital that absorbs a position's losses:
+ * its own margin when isolated, the shared account equity when cross
+ */
+export const calculateMarginAtRisk = (
+  position: Position,
+  crossEquity: number | null
+): number => {
+  if (position.marginMode === 'isolated') {
+    return position.margin;
+  }
+  return crossEquity ?? position.margin;
+};
+
+/**
+ * Sum margin separately for cross and isolated positions
+ */
+export const calculateMarginByMode = (
+  positions: Position[]
+): { cross: number; isolated: number } => {
+  return positions.reduce(
+    (totals, pos) => {
+      totals[pos.marginMode] += pos.margin;
+      return totals;
+    },
+    { cross: 0, isolated: 0 }
+  );
 };
 
 /**
@@ -52,6 +117,65 @@ export const calculateDistanceToLiquidation = (
   return distance * 100;
 };
 
+/**
+ * Solve for what it takes to survive a target price: the minimum deposit, or
+ * the size to cut now at the current price, that keeps equity at or above
+ * maintenance there. Cross positions are checked with the whole account, the
+ * other coins at their prices in `prices` (a portfolio-wide scenario, or live
+ * prices when only this coin moves). Cutting an isolated position releases its
+ * margin pro rata and leaves liquidation where it is, so only a deposit helps.
+ * Its maintenance comes from the margin tiers at the target notional when
+ * they cover the coin.
+ */
+export const calculateMarginTopUp = (
+  position: Position,
+  targetPrice: number,
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): MarginTopUpResult => {
+  const direction = position.side === 'long' ? 1 : -1;
+  const move = targetPrice - position.currentPrice;
+  const crossPosition = crossPortfolio?.positions.find((pos) => pos.coin === position.coin);
+
+  if (position.marginMode === 'cross' && crossPortfolio && crossPosition) {
+    const scenario = { ...prices, [position.coin]: targetPrice };
+    const equityAtTarget = calculatePortfolioEquity(crossPortfolio, scenario);
+    const maintenanceAtTarget = calculatePortfolioMaintenance(crossPortfolio, scenario);
+    const shortfall = Math.max(maintenanceAtTarget - equityAtTarget, 0);
+
+    // Each unit cut now removes its loss over the move and its maintenance at the target
+    const reliefPerUnit = -direction * move + targetPrice * crossPosition.maintenanceRate;
+    const cut = reliefPerUnit > 0 ? shortfall / reliefPerUnit : Infinity;
+
+    return {
+      targetPrice,
+      equityAtTarget,
+      maintenanceAtTarget,
+      deposit: shortfall,
+      sizeReduction: shortfall === 0 ? 0 : cut <= position.size ? cut : null,
+    };
+  }
+
+  const maintenanceRate = resolveMaintenanceRate(
+    position.coin,
+    position.size * targetPrice,
+    marginModel,
+    reportedMaintenanceRate(position)
+  );
+  const equityAtTarget = position.margin + direction * position.size * move;
+  const maintenanceAtTarget = position.size * targetPrice * maintenanceRate;
+  const shortfall = Math.max(maintenanceAtTarget - equityAtTarget, 0);
+
+  return {
+    targetPrice,
+    equityAtTarget,
+    maintenanceAtTarget,
+    deposit: shortfall,
+    sizeReduction: shortfall === 0 ? 0 : null,
+  };
+};
+
 /**
  * Calculate ROE (Return on Equity) at a given price
  */
@@ -81,54 +205,78 @@ export const formatPercentage = (value: number): string => {
 };
 
 /**
- * Generate realistic price history with volatility for chart animation
+ * Generate a price path from the start to the end price with noise from a
+ * path model. The model's log returns are pinned to the target like a
+ * Brownian bridge, so the path keeps the model's texture (jumps, volatility
+ * clusters) and still lands exactly on the end price. The same seed always
+ * gives the same path. Points are stamped `stepMs` apart from `startTime`.
  */
 export const generatePriceHistory = (
   startPrice: number,
   endPrice: number,
-  steps: number = 60
-): { price: number; time: number }[] => {
-  const history: { price: number; time: number }[] = [];
-  const totalChange = endPrice - startPrice;
-  const baseStepSize = totalChange / steps;
-  
-  // Volatility factor (2% random variation)
-  const volatility = 0.02;
-  
-  let currentPrice = startPrice;
-  
-  for (let i = 0; i <= steps; i++) {
-    // Add some random variation to make it look realistic
-    const randomVariation = (Math.random() - 0.5) * 2 * volatility * Math.abs(startPrice);
-    
-    // Calculate progress (sigmoid curve for more natural movement)
-    const progress = i / steps;
-    const smoothProgress = progress * progress * (3 - 2 * progress); // Smoothstep function
-    
-    // Calculate price with trend + randomness
-    let price = startPrice + (totalChange * smoothProgress) + randomVariation;
-    
-    // Ensure we don't overshoot too much
-    if (totalChange > 0) {
-      price = Math.min(price, endPrice + Math.abs(totalChange) * 0.05);
-      price = Math.max(price, startPrice - Math.abs(totalChange) * 0.05);
-    } else {
-      price = Math.max(price, endPrice - Math.abs(totalChange) * 0.05);
-      price = Math.min(price, startPrice + Math.abs(totalChange) * 0.05);
-    }
-    
-    // On the last step, ensure we hit the target exactly
-    if (i === steps) {
-      price = endPrice;
-    }
-    
+  steps: number = 60,
+  startTime: number = Date.now(),
+  stepMs: number = 60 * 1000,
+  model: PathModelConfig = { type: 'gbm', seed: createSeed(), calibration: null }
+): PriceData[] => {
+  // A price cannot reach zero on a log path; stop just short of it
+  const target = Math.max(endPrice, startPrice * MIN_PATH_PRICE_FRACTION);
+  const returns = generateModelReturns(model, steps, stepMs / (60 * 60 * 1000));
+  const totalReturn = returns.reduce((sum, r) => sum + r, 0);
+  const targetReturn = Math.log(target / startPrice);
+
+  const history: PriceData[] = [{ price: startPrice, time: startTime }];
+  let logPrice = 0;
+  for (let i = 1; i <= steps; i++) {
+    logPrice += returns[i - 1];
+    const bridged = logPrice - (i / steps) * (totalReturn - targetReturn);
     history.push({
-      price: price,
-      time: i,
+      // Land exactly on the target at the last step
+      price: i === steps ? target : startPrice * Math.exp(bridged),
+      time: startTime + i * stepMs,
     });
-    
-    currentPrice = price;
   }
 
   return history;
-};
\ No newline at end of file
+};
+
+/**
+ * Point where a path crosses a level between `step - 1` and `step`,
+ * interpolated linearly in time
+ */
+export const interpolatePathCrossing = (
+  path: PriceData[],
+  step: number,
+  level: number
+): PathLiquidation => {
+  const point = path[step];
+  const previous = path[step - 1];
+  if (!previous || previous.price === point.price) {
+    return { step, time: point.time, price: point.price };
+  }
+
+  const fraction = Math.min(Math.max((previous.price - level) / (previous.price - point.price), 0), 1);
+  return {
+    step,
+    time: previous.time + (point.time - previous.time) * fraction,
+    price: level,
+  };
+};
+
+/**
+ * Find the first point of a price path that reaches the liquidation price.
+ * The path can pass through the level and come back, so every point counts,
+ * not just where it ends.
+ */
+export const findPathLiquidation = (
+  side: 'long' | 'short',
+  liquidationPrice: number | null,
+  path: PriceData[]
+): PathLiquidation | null => {
+  if (!liquidationPrice) return null;
+
+  const step = path.findIndex((point) =>
+    side === 'long' ? point.price <= liquidationPrice : point.price >= liquidationPrice
+  );
+  return step === -1 ? null : interpolatePathCrossing(path, step, liquidationPrice);
+};
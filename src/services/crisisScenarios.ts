@@ -0,0 +1,129 @@
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  CrisisScenario,
+  CrisisScenarioResult,
+  CrisisPositionOutcome,
+  SpotBalance,
+} from '../types';
+import { SCENARIO_PROXIES } from '../data/crisisScenarios';
+import { calculateNewPrice, calculatePnL, isPositionLiquidated } from './calculations';
+import { evaluatePortfolio } from './portfolio';
+import { calculateSpotValueChange } from './spot';
+
+// Generic basket for coins with no path or proxy in the scenario
+const ALT_BASKET = 'ALT';
+
+/**
+ * Pick the scenario path for a coin: its own path, then its proxy,
+ * then the altcoin basket, then BTC
+ */
+export const resolveScenarioPath = (
+  scenario: CrisisScenario,
+  coin: string
+): { proxy: string; path: number[]; isFallback: boolean } => {
+  const candidates = [coin, SCENARIO_PROXIES[coin], ALT_BASKET, 'BTC'];
+  const proxy = candidates.find((candidate) => candidate && scenario.assets[candidate]) ?? 'BTC';
+
+  return {
+    proxy,
+    path: scenario.assets[proxy] ?? [0],
+    isFallback: proxy !== coin,
+  };
+};
+
+/**
+ * Walk every position through a crisis path day by day. The cross account and
+ * each isolated position are checked on every close; a liquidated position keeps
+ * the PnL it had on that day for the rest of the path. Spot holdings follow
+ * their perp coin's path and count toward the totals.
+ */
+export const runCrisisScenario = (
+  scenario: CrisisScenario,
+  positions: Position[],
+  crossPortfolio: CrossPortfolio | null,
+  spotBalances: SpotBalance[] = []
+): CrisisScenarioResult => {
+  const paths = positions.map((pos) => resolveScenarioPath(scenario, pos.coin));
+  const spotPaths: Record<string, number[]> = {};
+  spotBalances.forEach((balance) => {
+    if (balance.shockCoin) spotPaths[balance.shockCoin] = resolveScenarioPath(scenario, balance.shockCoin).path;
+  });
+  const spotChangeAt = (step: number) => calculateSpotValueChange(spotBalances, (coin) => {
+    const path = spotPaths[coin];
+    return path[Math.min(step, path.length - 1)];
+  });
+
+  const steps = Math.max(
+    0,
+    ...paths.map(({ path }) => path.length - 1),
+    ...Object.values(spotPaths).map((path) => path.length - 1)
+  );
+  const hasCross = crossPortfolio !== null && crossPortfolio.positions.length > 0;
+
+  const startPnl = positions.map((pos) => calculatePnL(pos, pos.currentPrice));
+  const frozenPnl: (number | null)[] = positions.map(() => null);
+  const liquidationSteps: (number | null)[] = positions.map(() => null);
+  const worstPnl = positions.map(() => 0);
+  let worstTotal = 0;
+  let accountLiquidationStep: number | null = null;
+  let prices: number[] = positions.map((pos) => pos.currentPrice);
+
+  for (let step = 1; step <= steps; step++) {
+    prices = positions.map((pos, i) => {
+      const path = paths[i].path;
+      const change = path[Math.min(step, path.length - 1)];
+      return Math.max(calculateNewPrice(pos.currentPrice, change), 0);
+    });
+
+    if (hasCross && accountLiquidationStep === null) {
+      const vector: PriceVector = {};
+      positions.forEach((pos, i) => { vector[pos.coin] = prices[i]; });
+      if (evaluatePortfolio(crossPortfolio!, vector).isLiquidated) {
+        accountLiquidationStep = step;
+      }
+    }
+
+    positions.forEach((pos, i) => {
+      if (frozenPnl[i] !== null) return;
+      const isLiquidated = pos.marginMode === 'cross'
+        ? accountLiquidationStep !== null
+        : isPositionLiquidated(pos, prices[i]);
+      if (isLiquidated) {
+        frozenPnl[i] = calculatePnL(pos, prices[i]);
+        liquidationSteps[i] = step;
+      }
+    });
+
+    const stepPnl = positions.map(
+      (pos, i) => (frozenPnl[i] ?? calculatePnL(pos, prices[i])) - startPnl[i]
+    );
+    stepPnl.forEach((pnl, i) => { worstPnl[i] = Math.min(worstPnl[i], pnl); });
+    worstTotal = Math.min(worstTotal, stepPnl.reduce((sum, pnl) => sum + pnl, spotChangeAt(step)));
+  }
+
+  const outcomes: CrisisPositionOutcome[] = positions.map((pos, i) => ({
+    coin: pos.coin,
+    proxy: paths[i].proxy,
+    isFallback: paths[i].isFallback,
+    finalChange: paths[i].path[paths[i].path.length - 1],
+    pnlChange: (frozenPnl[i] ?? calculatePnL(pos, prices[i])) - startPnl[i],
+    worstPnlChange: worstPnl[i],
+    liquidationStep: liquidationSteps[i],
+  }));
+
+  const spotValueChange = spotChangeAt(steps);
+
+  return {
+    scenarioId: scenario.id,
+    spotValueChange,
+    totalPnlChange: outcomes.reduce((sum, outcome) => sum + outcome.pnlChange, spotValueChange),
+    worstPnlChange: worstTotal,
+    accountLiquidationStep,
+    positions: outcomes,
+    liquidatedCoins: outcomes
+      .filter((outcome) => outcome.liquidationStep !== null)
+      .map((outcome) => outcome.coin),
+  };
+};
@@ -0,0 +1,73 @@
+import { HyperliquidEnvironment, EnvironmentConfig } from '../types';
+
+const ENVIRONMENT_STORAGE_KEY = 'hyperliquid_environment';
+
+export const ENVIRONMENT_LABELS: Record<HyperliquidEnvironment, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  custom: 'Custom',
+};
+
+const MAINNET: EnvironmentConfig = {
+  environment: 'mainnet',
+  apiUrl: 'https://api.hyperliquid.xyz',
+  wsUrl: 'wss://api.hyperliquid.xyz/ws',
+};
+
+const TESTNET: EnvironmentConfig = {
+  environment: 'testnet',
+  apiUrl: 'https://api.hyperliquid-testnet.xyz',
+  wsUrl: 'wss://api.hyperliquid-testnet.xyz/ws',
+};
+
+/**
+ * Config for a preset network, or for a custom base URL such as a local mock
+ * server. A custom URL may include the `/info` path; the WebSocket is assumed
+ * at `/ws` on the same host. Returns null for a URL that does not parse.
+ */
+export const buildEnvironmentConfig = (
+  environment: HyperliquidEnvironment,
+  customUrl: string = ''
+): EnvironmentConfig | null => {
+  if (environment === 'mainnet') return MAINNET;
+  if (environment === 'testnet') return TESTNET;
+
+  try {
+    const url = new URL(customUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    const base = `${url.origin}${url.pathname}`.replace(/\/+$/, '').replace(/\/info$/, '');
+    return {
+      environment: 'custom',
+      apiUrl: base,
+      wsUrl: `${base.replace(/^http/, 'ws')}/ws`,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Environment chosen in an earlier session, mainnet by default
+ */
+export const loadEnvironmentConfig = (): EnvironmentConfig => {
+  try {
+    const saved = localStorage.getItem(ENVIRONMENT_STORAGE_KEY);
+    if (!saved) return MAINNET;
+    const { environment, apiUrl } = JSON.parse(saved);
+    return buildEnvironmentConfig(environment, apiUrl) ?? MAINNET;
+  } catch (error) {
+    console.error('Failed to load environment:', error);
+    return MAINNET;
+  }
+};
+
+export const saveEnvironmentConfig = (config: EnvironmentConfig): void => {
+  localStorage.setItem(ENVIRONMENT_STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Where the last loaded address is saved for an environment. Mainnet keeps
+ * the original key so addresses saved before environments existed still load.
+ */
+export const addressStorageKey = (environment: HyperliquidEnvironment): string =>
+  environment === 'mainnet' ? 'hyperliquid_address' : `hyperliquid_address_${environment}`;
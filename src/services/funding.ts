@@ -0,0 +1,207 @@
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  FundingRecord,
+  PredictedFunding,
+  FundingHoldConfig,
+  FundingHoldResult,
+  FundingPositionResult,
+  FundingEquityPoint,
+} from '../types';
+import { calculatePnL } from './calculations';
+import { evaluatePortfolio, reportedMaintenanceRate } from './portfolio';
+import { mean } from './statistics';
+
+const HOURS_PER_YEAR = 24 * 365;
+
+// Keeps the equity chart readable over long holding periods
+const MAX_EQUITY_POINTS = 120;
+
+/**
+ * Convert an hourly funding rate to percent per year
+ */
+export const annualizeHourlyRate = (hourlyRate: number): number => {
+  return hourlyRate * HOURS_PER_YEAR * 100;
+};
+
+/**
+ * Convert percent per year to an hourly funding rate
+ */
+export const hourlyRateFromAnnualized = (annualizedPercent: number): number => {
+  return annualizedPercent / 100 / HOURS_PER_YEAR;
+};
+
+/**
+ * Funding a position receives over some hours at a constant hourly rate.
+ * Longs pay shorts when the rate is positive, so the result is negative for them.
+ */
+export const calculateFundingPayment = (
+  position: Position,
+  price: number,
+  hourlyRate: number,
+  hours: number
+): number => {
+  const direction = position.side === 'long' ? 1 : -1;
+  return -direction * position.size * price * hourlyRate * hours;
+};
+
+/**
+ * Average settled hourly rate over the loaded history
+ */
+export const averageFundingRate = (history: FundingRecord[]): number | null => {
+  if (history.length === 0) return null;
+  return mean(history.map((record) => record.fundingRate));
+};
+
+/**
+ * Hyperliquid's own predicted rate, normalized to one hour
+ */
+export const predictedHourlyRate = (predictions: PredictedFunding[] | undefined): number | null => {
+  const hyperliquid = predictions?.find((prediction) => prediction.venue === 'HlPerp');
+  if (!hyperliquid || hyperliquid.intervalHours <= 0) return null;
+  return hyperliquid.fundingRate / hyperliquid.intervalHours;
+};
+
+/**
+ * Hourly rate for a coin under the chosen source. The predicted rate falls back
+ * to the historical average, and both fall back to zero.
+ */
+export const resolveHourlyFundingRate = (
+  coin: string,
+  config: FundingHoldConfig,
+  historyByCoin: Record<string, FundingRecord[]>,
+  predicted: Record<string, PredictedFunding[]>
+): number => {
+  if (config.source === 'spike') {
+    return hourlyRateFromAnnualized(config.spikeAnnualized);
+  }
+
+  const historical = averageFundingRate(historyByCoin[coin] ?? []);
+  if (config.source === 'historical') {
+    return historical ?? 0;
+  }
+  return predictedHourlyRate(predicted[coin]) ?? historical ?? 0;
+};
+
+/**
+ * Move an isolated liquidation price for margin added to (positive) or
+ * taken from (negative) the position's bucket
+ */
+const shiftLiquidationPrice = (position: Position, marginChange: number): number | null => {
+  if (!position.liquidationPrice) return null;
+
+  // Shift the reported liquidation price by the reported requirement only; with
+  // none known, the margin change moves it as if maintenance were zero
+  const maintenanceRate = reportedMaintenanceRate(position) ?? 0;
+  const signedSize = position.side === 'long' ? position.size : -position.size;
+  const denominator = signedSize - position.size * maintenanceRate;
+  if (denominator === 0) return position.liquidationPrice;
+
+  const shifted = position.liquidationPrice - marginChange / denominator;
+  return shifted > 0 ? shifted : null;
+};
+
+/**
+ * Whether the current price is past a (shifted) liquidation price
+ */
+const crossesLiquidation = (position: Position, liquidationPrice: number | null): boolean => {
+  if (!liquidationPrice) return false;
+  return position.side === 'long'
+    ? position.currentPrice <= liquidationPrice
+    : position.currentPrice >= liquidationPrice;
+};
+
+/**
+ * Hold every position at its current price for a period, accruing funding
+ * hour by hour into PnL and margin. Cross funding moves the shared account
+ * equity; isolated funding drains or tops up the position's own bucket.
+ * A liquidated position stops accruing funding.
+ */
+export const simulateFundingHold = (
+  positions: Position[],
+  crossPortfolio: CrossPortfolio | null,
+  config: FundingHoldConfig,
+  historyByCoin: Record<string, FundingRecord[]>,
+  predicted: Record<string, PredictedFunding[]>
+): FundingHoldResult => {
+  const rates = positions.map((pos) =>
+    resolveHourlyFundingRate(pos.coin, config, historyByCoin, predicted)
+  );
+  const hourlyPayments = positions.map((pos, i) =>
+    calculateFundingPayment(pos, pos.currentPrice, rates[i], 1)
+  );
+
+  const prices: PriceVector = {};
+  positions.forEach((pos) => { prices[pos.coin] = pos.currentPrice; });
+  const hasCross = crossPortfolio !== null && crossPortfolio.positions.length > 0;
+
+  const accrued = positions.map(() => 0);
+  const liquidationHours: (number | null)[] = positions.map(() => null);
+  const equityPath: FundingEquityPoint[] = [];
+  const stride = Math.max(1, Math.ceil(config.holdingHours / MAX_EQUITY_POINTS));
+  let accountLiquidationHour: number | null = null;
+
+  // Cross account with the funding accrued so far added to its equity
+  const fundedPortfolio = (): CrossPortfolio => {
+    const crossFunding = positions.reduce(
+      (sum, pos, i) => sum + (pos.marginMode === 'cross' ? accrued[i] : 0),
+      0
+    );
+    return { ...crossPortfolio!, accountValue: crossPortfolio!.accountValue + crossFunding };
+  };
+
+  for (let hour = 0; hour <= config.holdingHours; hour++) {
+    if (hour > 0) {
+      positions.forEach((pos, i) => {
+        if (liquidationHours[i] === null) accrued[i] += hourlyPayments[i];
+      });
+    }
+
+    if (hasCross) {
+      const evaluation = evaluatePortfolio(fundedPortfolio(), prices);
+      if (accountLiquidationHour === null && evaluation.isLiquidated) {
+        accountLiquidationHour = hour;
+      }
+      if (hour % stride === 0 || hour === config.holdingHours) {
+        equityPath.push({ hour, equity: evaluation.equity, maintenanceMargin: evaluation.maintenanceMargin });
+      }
+    }
+
+    positions.forEach((pos, i) => {
+      if (liquidationHours[i] !== null) return;
+      const isLiquidated = pos.marginMode === 'cross'
+        ? accountLiquidationHour !== null
+        : crossesLiquidation(pos, shiftLiquidationPrice(pos, accrued[i]));
+      if (isLiquidated) liquidationHours[i] = hour;
+    });
+  }
+
+  const crossLiquidationPrices = hasCross
+    ? evaluatePortfolio(fundedPortfolio(), prices).liquidationPrices
+    : {};
+
+  const results: FundingPositionResult[] = positions.map((pos, i) => ({
+    coin: pos.coin,
+    marginMode: pos.marginMode,
+    hourlyRate: rates[i],
+    annualizedRate: annualizeHourlyRate(rates[i]),
+    fundingPnl: accrued[i],
+    pnlWithFunding: calculatePnL(pos, pos.currentPrice, accrued[i]),
+    liquidationPrice: pos.marginMode === 'cross'
+      ? crossLiquidationPrices[pos.coin] ?? null
+      : shiftLiquidationPrice(pos, accrued[i]),
+    liquidationHour: liquidationHours[i],
+  }));
+
+  return {
+    config,
+    positions: results,
+    totalFundingPnl: accrued.reduce((sum, value) => sum + value, 0),
+    accountLiquidationHour,
+    equityPath,
+    liquidatedCoins: results
+      .filter((result) => result.liquidationHour !== null)
+      .map((result) => result.coin),
+  };
+};
@@ -0,0 +1,90 @@
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  HeatmapCell,
+  LiquidationHeatmap,
+} from '../types';
+import { isPositionLiquidated } from './calculations';
+import { calculatePortfolioEquity, calculatePortfolioMaintenance } from './portfolio';
+
+/**
+ * Evenly spaced percent moves from -range to +range, zero included
+ */
+export const buildMoveAxis = (range: number, step: number): number[] => {
+  const count = Math.floor(range / step);
+  return Array.from({ length: 2 * count + 1 }, (_, i) => (i - count) * step);
+};
+
+/**
+ * Equity and maintenance sensitivity of the cross account to one coin's price
+ */
+const crossExposure = (
+  portfolio: CrossPortfolio,
+  coin: string,
+  prices: PriceVector
+): { pnlPerMove: number; maintenancePerMove: number } => {
+  const position = portfolio.positions.find((pos) => pos.coin === coin);
+  if (!position) return { pnlPerMove: 0, maintenancePerMove: 0 };
+
+  const price = prices[coin] ?? position.markPrice;
+  return {
+    pnlPerMove: position.size * price,
+    maintenancePerMove: Math.abs(position.size) * price * position.maintenanceRate,
+  };
+};
+
+/**
+ * Revalue the account over a grid of moves in two coins, every other coin
+ * held at its price in `prices`. Equity and maintenance are linear in each
+ * coin's price, so the account is evaluated once and every cell is a
+ * closed-form update. Isolated positions in either coin are checked against
+ * their own liquidation levels.
+ */
+export const buildLiquidationHeatmap = (
+  positions: Position[],
+  crossPortfolio: CrossPortfolio,
+  prices: PriceVector,
+  xCoin: string,
+  yCoin: string,
+  moves: number[]
+): LiquidationHeatmap => {
+  const baseEquity = calculatePortfolioEquity(crossPortfolio, prices);
+  const baseMaintenance = calculatePortfolioMaintenance(crossPortfolio, prices);
+  const x = crossExposure(crossPortfolio, xCoin, prices);
+  const y = crossExposure(crossPortfolio, yCoin, prices);
+  const hasCrossPositions = crossPortfolio.positions.length > 0;
+
+  const isolated = positions.filter(
+    (pos) => pos.marginMode === 'isolated' && (pos.coin === xCoin || pos.coin === yCoin)
+  );
+
+  const rows = moves.map((yMove) =>
+    moves.map((xMove): HeatmapCell => {
+      const xFraction = xMove / 100;
+      const yFraction = yMove / 100;
+      const equity = baseEquity + x.pnlPerMove * xFraction + y.pnlPerMove * yFraction;
+      const maintenanceMargin = Math.max(
+        baseMaintenance + x.maintenancePerMove * xFraction + y.maintenancePerMove * yFraction,
+        0
+      );
+
+      return {
+        xMove,
+        yMove,
+        equity,
+        maintenanceMargin,
+        marginRatio: equity > 0 ? maintenanceMargin / equity : Infinity,
+        isLiquidated: hasCrossPositions && equity <= maintenanceMargin,
+        isolatedLiquidations: isolated
+          .filter((pos) => isPositionLiquidated(
+            pos,
+            pos.currentPrice * (1 + (pos.coin === xCoin ? xFraction : yFraction))
+          ))
+          .map((pos) => pos.coin),
+      };
+    })
+  );
+
+  return { xCoin, yCoin, moves, rows, baseEquity };
+};
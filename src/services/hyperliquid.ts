@@ -1,6 +1,8 @@
 import axios from 'axios';
 import {
   HyperliquidClearinghouseState,
+  HyperliquidSpotClearinghouseState,
+  SpotMetaAndAssetCtxsResponse,
   AllMidsResponse,
   Position,
   CandleData,
@@ -8,77 +10,306 @@ import {
   UserFill,
   LedgerUpdate,
   TwapSliceFill,
+  MetaAndAssetCtxsResponse,
+  MarginModel,
+  FundingRecord,
+  PredictedFunding,
+  L2Book,
+  HyperliquidL2Level,
+  EnvironmentConfig,
+  HyperliquidClient,
+  RequestPriority,
 } from '../types';
+import { calculateMaintenanceMargin, maintenanceRateForLeverage } from './margin';
+import { deriveLiquidationPrices, getMarginMode } from './portfolio';
+import { Validator, validate, logCoercion } from './validation';
+import { createRequestCache } from './requestCache';
+import { createRequestScheduler, RequestErrorKind, RateLimitError } from './requestScheduler';
+import {
+  RawFill,
+  clearinghouseStateSchema,
+  spotClearinghouseStateSchema,
+  spotMetaAndAssetCtxsSchema,
+  allMidsSchema,
+  metaAndAssetCtxsSchema,
+  l2BookSchema,
+  fundingHistorySchema,
+  predictedFundingsSchema,
+  candleSnapshotSchema,
+  openOrdersSchema,
+  userFillsSchema,
+  ledgerUpdatesSchema,
+  twapFillsSchema,
+} from './schemas';
 
-const HYPERLIQUID_API_URL = 'https://api.hyperliquid.xyz/info';
+// How long a response stays fresh, by info request type. Account state is
+// kept short so it never lags far behind a trade; market structure and
+// history hardly change within a session.
+const CACHE_TTL_MS: Record<string, number> = {
+  clearinghouseState: 5_000,
+  spotClearinghouseState: 5_000,
+  frontendOpenOrders: 5_000,
+  allMids: 5_000,
+  l2Book: 5_000,
+  userFills: 30_000,
+  userTwapSliceFills: 30_000,
+  userNonFundingLedgerUpdates: 60_000,
+  metaAndAssetCtxs: 60_000,
+  spotMetaAndAssetCtxs: 60_000,
+  predictedFundings: 60_000,
+  candleSnapshot: 5 * 60_000,
+  fundingHistory: 10 * 60_000,
+};
 
-/**
- * Fetch user's open positions from Hyperliquid
- */
-export const fetchUserPositions = async (
-  address: string
-): Promise<HyperliquidClearinghouseState> => {
-  try {
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'clearinghouseState',
-      user: address,
-    });
+// Hyperliquid budgets info requests by weight, 1200 per minute per IP. The
+// account and price snapshots weigh 2 and everything else 20; history
+// requests also cost 1 per 20 items returned, candles 1 per 60.
+const INFO_WEIGHT_PER_MINUTE = 1200;
+const LIGHT_REQUESTS = new Set(['clearinghouseState', 'spotClearinghouseState', 'allMids', 'l2Book']);
+const WEIGHT_PER_20_ITEMS = new Set(['userFills', 'fundingHistory', 'userTwapSliceFills']);
 
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch positions: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch positions');
+// Positions load first, history last
+const REQUEST_PRIORITY: Record<string, RequestPriority> = {
+  clearinghouseState: 'high',
+  spotClearinghouseState: 'high',
+  allMids: 'high',
+  frontendOpenOrders: 'high',
+  candleSnapshot: 'low',
+  fundingHistory: 'low',
+  userFills: 'low',
+  userNonFundingLedgerUpdates: 'low',
+  userTwapSliceFills: 'low',
+};
+
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 20_000;
+
+const requestWeight = (type: string): number => (LIGHT_REQUESTS.has(type) ? 2 : 20);
+
+const itemWeight = (type: string, data: unknown): number => {
+  if (!Array.isArray(data)) return 0;
+  if (type === 'candleSnapshot') return Math.floor(data.length / 60);
+  return WEIGHT_PER_20_ITEMS.has(type) ? Math.floor(data.length / 20) : 0;
+};
+
+// Rate limits, server errors and dropped connections are worth another try
+const classifyError = (error: unknown): RequestErrorKind => {
+  if (!axios.isAxiosError(error)) return 'fatal';
+  const status = error.response?.status;
+  if (status === 429) return 'rateLimited';
+  if (status === undefined || status >= 500) return 'transient';
+  return 'fatal';
+};
+
+const toFill = (fill: RawFill): UserFill => {
+  if (fill.feeToken === undefined) {
+    logCoercion(`fill ${fill.tid} has no fee token; assuming USDC`);
   }
+  return {
+    coin: fill.coin,
+    px: fill.px,
+    sz: fill.sz,
+    side: fill.side, // 'A' = Ask (sell), 'B' = Bid (buy)
+    time: fill.time,
+    dir: fill.dir, // 'Open Long', 'Close Long', 'Open Short', 'Close Short'
+    closedPnl: fill.closedPnl,
+    hash: fill.hash,
+    oid: fill.oid,
+    crossed: fill.crossed,
+    fee: fill.fee,
+    feeToken: fill.feeToken ?? 'USDC',
+    tid: fill.tid,
+    startPosition: fill.startPosition,
+  };
 };
 
 /**
- * Fetch current mark prices for all assets
+ * Build an API client for one environment. Every request goes to the
+ * environment's info endpoint through a scheduler that keeps within the
+ * API's weight budget and retries transient failures, and its response is
+ * checked against a schema; errors are rethrown with what was being fetched,
+ * a malformed response as an ApiValidationError naming the bad field.
+ * Validated responses are cached per request type, and identical requests in
+ * flight share one call.
  */
-export const fetchAllPrices = async (): Promise<AllMidsResponse> => {
-  try {
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'allMids',
-    });
+export const createHyperliquidClient = (config: EnvironmentConfig): HyperliquidClient => {
+  const infoUrl = `${config.apiUrl}/info`;
+  const cache = createRequestCache();
+  const scheduler = createRequestScheduler({
+    weightPerMinute: INFO_WEIGHT_PER_MINUTE,
+    maxRetries: MAX_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    classifyError,
+  });
 
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch prices: ${error.response?.data?.message || error.message}`
+  const requestInfo = async <T>(
+    body: Record<string, unknown>,
+    description: string,
+    schema: Validator<T>
+  ): Promise<T> => {
+    const type = body.type as string;
+    let data: unknown;
+    try {
+      const response = await scheduler.schedule(
+        () => axios.post(infoUrl, body),
+        requestWeight(type),
+        REQUEST_PRIORITY[type] ?? 'normal'
       );
+      data = response.data;
+    } catch (error) {
+      if (classifyError(error) === 'rateLimited') {
+        throw new RateLimitError(description);
+      }
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `Failed to fetch ${description}: ${error.response?.data?.message || error.message}`
+        );
+      }
+      throw new Error(`Failed to fetch ${description}`);
     }
-    throw new Error('Failed to fetch prices');
-  }
-};
+    scheduler.charge(itemWeight(type, data));
+    return validate(data, schema, description);
+  };
 
-/**
- * Fetch candlestick data for a specific coin
- */
-export const fetchCandleData = async (
-  coin: string,
-  interval: string = '15m',
-  lookbackHours: number = 24
-): Promise<CandleData[]> => {
-  try {
+  // Requests over a time window ending now pass a key without the timestamps,
+  // so repeats within the TTL hit the cache
+  const postInfo = <T>(
+    body: Record<string, unknown>,
+    description: string,
+    schema: Validator<T>,
+    cacheKey: string = JSON.stringify(body)
+  ): Promise<T> =>
+    cache.get(cacheKey, CACHE_TTL_MS[body.type as string] ?? 0, () => requestInfo(body, description, schema));
+
+  /**
+   * Drop every cached response so the next requests go to the API
+   */
+  const invalidateCache = () => cache.invalidate();
+
+  /**
+   * Fetch user's open positions
+   */
+  const fetchUserPositions = (address: string): Promise<HyperliquidClearinghouseState> =>
+    postInfo({ type: 'clearinghouseState', user: address }, 'positions', clearinghouseStateSchema);
+
+  /**
+   * Fetch user's spot token balances
+   */
+  const fetchSpotClearinghouseState = (address: string): Promise<HyperliquidSpotClearinghouseState> =>
+    postInfo({ type: 'spotClearinghouseState', user: address }, 'spot balances', spotClearinghouseStateSchema);
+
+  /**
+   * Fetch spot tokens and pairs together with per-pair market contexts
+   */
+  const fetchSpotMetaAndAssetCtxs = (): Promise<SpotMetaAndAssetCtxsResponse> =>
+    postInfo({ type: 'spotMetaAndAssetCtxs' }, 'spot metadata', spotMetaAndAssetCtxsSchema);
+
+  /**
+   * Fetch current mark prices for all assets
+   */
+  const fetchAllPrices = (): Promise<AllMidsResponse> =>
+    postInfo({ type: 'allMids' }, 'prices', allMidsSchema);
+
+  /**
+   * Fetch perp universe metadata together with per-asset market contexts
+   */
+  const fetchMetaAndAssetCtxs = (): Promise<MetaAndAssetCtxsResponse> =>
+    postInfo({ type: 'metaAndAssetCtxs' }, 'asset contexts', metaAndAssetCtxsSchema);
+
+  /**
+   * Fetch an L2 order book snapshot for a coin
+   */
+  const fetchL2Book = async (coin: string): Promise<L2Book> => {
+    const data = await postInfo({ type: 'l2Book', coin }, 'order book', l2BookSchema);
+
+    // levels[0] are bids, levels[1] asks
+    const [bids, asks] = data.levels;
+    const toLevel = (level: HyperliquidL2Level) => ({
+      price: parseFloat(level.px),
+      size: parseFloat(level.sz),
+      orders: level.n,
+    });
+
+    return {
+      coin: data.coin,
+      time: data.time,
+      bids: bids.map(toLevel),
+      asks: asks.map(toLevel),
+    };
+  };
+
+  /**
+   * Fetch settled funding rates for a coin
+   */
+  const fetchFundingHistory = async (
+    coin: string,
+    lookbackHours: number = 168
+  ): Promise<FundingRecord[]> => {
     const endTime = Date.now();
     const startTime = endTime - lookbackHours * 60 * 60 * 1000;
+    const data = await postInfo(
+      { type: 'fundingHistory', coin, startTime, endTime },
+      'funding history',
+      fundingHistorySchema,
+      `fundingHistory:${coin}:${lookbackHours}`
+    );
 
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'candleSnapshot',
-      req: {
-        coin: coin,
-        interval: interval,
-        startTime: startTime,
-        endTime: endTime,
-      },
+    return data.map((record) => ({
+      coin: record.coin,
+      fundingRate: parseFloat(record.fundingRate),
+      premium: parseFloat(record.premium),
+      time: record.time,
+    }));
+  };
+
+  /**
+   * Fetch predicted next funding rates for every coin, keyed by coin
+   */
+  const fetchPredictedFundings = async (): Promise<Record<string, PredictedFunding[]>> => {
+    const data = await postInfo({ type: 'predictedFundings' }, 'predicted funding', predictedFundingsSchema);
+
+    const predicted: Record<string, PredictedFunding[]> = {};
+    data.forEach(([coin, venues]) => {
+      predicted[coin] = venues.flatMap(([venue, info]) => {
+        if (!info) return [];
+        if (info.fundingIntervalHours === undefined && venue !== 'HlPerp') {
+          logCoercion(`${venue} reports no funding interval; assuming 8h`);
+        }
+        return [{
+          coin,
+          venue,
+          fundingRate: parseFloat(info.fundingRate),
+          // Hyperliquid settles hourly; other venues default to 8h unless reported
+          intervalHours: info.fundingIntervalHours ?? (venue === 'HlPerp' ? 1 : 8),
+          nextFundingTime: info.nextFundingTime,
+        }];
+      });
     });
 
+    return predicted;
+  };
+
+  /**
+   * Fetch candlestick data for a specific coin
+   */
+  const fetchCandleData = async (
+    coin: string,
+    interval: string = '15m',
+    lookbackHours: number = 24
+  ): Promise<CandleData[]> => {
+    const endTime = Date.now();
+    const startTime = endTime - lookbackHours * 60 * 60 * 1000;
+    const data = await postInfo(
+      { type: 'candleSnapshot', req: { coin, interval, startTime, endTime } },
+      'candle data',
+      candleSnapshotSchema,
+      `candleSnapshot:${coin}:${interval}:${lookbackHours}`
+    );
+
     // Transform API response to our format
-    return response.data.map((candle: any) => ({
+    return data.map((candle) => ({
       time: candle.t,
       open: parseFloat(candle.o),
       high: parseFloat(candle.h),
@@ -86,163 +317,124 @@ export const fetchCandleData = async (
       close: parseFloat(candle.c),
       volume: parseFloat(candle.v),
     }));
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch candle data: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch candle data');
-  }
-};
+  };
 
-/**
- * Fetch user's open orders
- */
-export const fetchOpenOrders = async (address: string): Promise<OpenOrder[]> => {
-  try {
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'openOrders',
-      user: address,
-    });
+  /**
+   * Fetch user's open orders, including TP/SL trigger details
+   */
+  const fetchOpenOrders = async (address: string): Promise<OpenOrder[]> => {
+    const data = await postInfo({ type: 'frontendOpenOrders', user: address }, 'open orders', openOrdersSchema);
 
-    return response.data.map((order: any) => ({
-      oid: order.oid,
-      coin: order.coin,
-      side: order.side, // 'A' = Ask (sell), 'B' = Bid (buy)
-      limitPx: order.limitPx,
-      sz: order.sz,
-      timestamp: order.timestamp,
-      orderType: order.orderType || 'Limit',
-    }));
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch open orders: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch open orders');
-  }
-};
-
-/**
- * Fetch user's recent fills (up to 2000)
- */
-export const fetchUserFills = async (address: string): Promise<UserFill[]> => {
-  try {
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'userFills',
-      user: address,
-      aggregateByTime: true,
+    return data.map((order) => {
+      if (order.orderType === undefined) {
+        logCoercion(`open order ${order.oid} has no order type; assuming Limit`);
+      }
+      return {
+        oid: order.oid,
+        coin: order.coin,
+        side: order.side, // 'A' = Ask (sell), 'B' = Bid (buy)
+        limitPx: order.limitPx,
+        sz: order.sz,
+        timestamp: order.timestamp,
+        orderType: order.orderType ?? 'Limit',
+        isTrigger: order.isTrigger ?? false,
+        triggerPx: order.triggerPx,
+        triggerCondition: order.triggerCondition,
+        reduceOnly: order.reduceOnly ?? false,
+        isPositionTpsl: order.isPositionTpsl ?? false,
+      };
     });
+  };
 
-    return response.data.map((fill: any) => ({
-      coin: fill.coin,
-      px: fill.px,
-      sz: fill.sz,
-      side: fill.side, // 'A' = Ask (sell), 'B' = Bid (buy)
-      time: fill.time,
-      dir: fill.dir, // 'Open Long', 'Close Long', 'Open Short', 'Close Short'
-      closedPnl: fill.closedPnl,
-      hash: fill.hash,
-      oid: fill.oid,
-      crossed: fill.crossed,
-      fee: fill.fee,
-      feeToken: fill.feeToken || 'USDC',
-      tid: fill.tid,
-      startPosition: fill.startPosition,
-    }));
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch user fills: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch user fills');
-  }
-};
+  /**
+   * Fetch user's recent fills (up to 2000)
+   */
+  const fetchUserFills = async (address: string): Promise<UserFill[]> => {
+    const data = await postInfo(
+      { type: 'userFills', user: address, aggregateByTime: true },
+      'user fills',
+      userFillsSchema
+    );
+    return data.map(toFill);
+  };
 
-/**
- * Fetch user's non-funding ledger updates (deposits, withdrawals, transfers, liquidations)
- * Default: last 90 days
- */
-export const fetchUserLedgerUpdates = async (
-  address: string,
-  startTime?: number,
-  endTime?: number
-): Promise<LedgerUpdate[]> => {
-  try {
+  /**
+   * Fetch user's non-funding ledger updates (deposits, withdrawals, transfers, liquidations)
+   * Default: last 90 days
+   */
+  const fetchUserLedgerUpdates = async (
+    address: string,
+    startTime?: number,
+    endTime?: number
+  ): Promise<LedgerUpdate[]> => {
     const now = Date.now();
     const defaultStartTime = now - 90 * 24 * 60 * 60 * 1000; // 90 days ago
+    const data = await postInfo(
+      {
+        type: 'userNonFundingLedgerUpdates',
+        user: address,
+        startTime: startTime || defaultStartTime,
+        endTime: endTime || now,
+      },
+      'ledger updates',
+      ledgerUpdatesSchema,
+      startTime || endTime ? undefined : `userNonFundingLedgerUpdates:${address}`
+    );
 
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'userNonFundingLedgerUpdates',
-      user: address,
-      startTime: startTime || defaultStartTime,
-      endTime: endTime || now,
-    });
-
-    return response.data.map((update: any) => ({
+    return data.map((update) => ({
       time: update.time,
       hash: update.hash,
       delta: update.delta,
     }));
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch ledger updates: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch ledger updates');
-  }
-};
+  };
 
-/**
- * Fetch user's TWAP slice fills (up to 2000)
- */
-export const fetchTwapFills = async (address: string): Promise<TwapSliceFill[]> => {
-  try {
-    const response = await axios.post(HYPERLIQUID_API_URL, {
-      type: 'userTwapSliceFills',
-      user: address,
-    });
+  /**
+   * Fetch user's TWAP slice fills (up to 2000)
+   */
+  const fetchTwapFills = async (address: string): Promise<TwapSliceFill[]> => {
+    const data = await postInfo({ type: 'userTwapSliceFills', user: address }, 'TWAP fills', twapFillsSchema);
 
-    return response.data.map((item: any) => ({
+    return data.map((item) => ({
       twapId: item.twapId,
-      fill: {
-        coin: item.fill.coin,
-        px: item.fill.px,
-        sz: item.fill.sz,
-        side: item.fill.side,
-        time: item.fill.time,
-        dir: item.fill.dir,
-        closedPnl: item.fill.closedPnl,
-        hash: item.fill.hash,
-        oid: item.fill.oid,
-        crossed: item.fill.crossed,
-        fee: item.fill.fee,
-        feeToken: item.fill.feeToken || 'USDC',
-        tid: item.fill.tid,
-        startPosition: item.fill.startPosition,
-      },
+      fill: toFill(item.fill),
     }));
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(
-        `Failed to fetch TWAP fills: ${error.response?.data?.message || error.message}`
-      );
-    }
-    throw new Error('Failed to fetch TWAP fills');
-  }
+  };
+
+  return {
+    config,
+    invalidateCache,
+    getRequestStatus: scheduler.getStatus,
+    subscribeRequestStatus: scheduler.subscribe,
+    fetchUserPositions,
+    fetchSpotClearinghouseState,
+    fetchSpotMetaAndAssetCtxs,
+    fetchAllPrices,
+    fetchMetaAndAssetCtxs,
+    fetchL2Book,
+    fetchFundingHistory,
+    fetchPredictedFundings,
+    fetchCandleData,
+    fetchOpenOrders,
+    fetchUserFills,
+    fetchUserLedgerUpdates,
+    fetchTwapFills,
+  };
 };
 
 /**
- * Transform Hyperliquid API response to internal Position format
+ * Transform Hyperliquid API response to internal Position format.
+ * With a margin model, maintenance margin and a derived liquidation price are
+ * computed from the asset's margin tiers.
  */
 export const transformPositions = (
   clearinghouseState: HyperliquidClearinghouseState,
-  prices: AllMidsResponse
+  prices: AllMidsResponse,
+  marginModel: MarginModel | null = null
 ): Position[] => {
+  const derivedLiquidationPrices = marginModel
+    ? deriveLiquidationPrices(clearinghouseState, marginModel)
+    : {};
+
   return clearinghouseState.assetPositions
     .map((item) => {
       // The position data is nested inside a "position" property
@@ -254,23 +446,42 @@ export const transformPositions = (
       if (size === 0) return null;
       
       const entryPrice = parseFloat(pos.entryPx);
-      const currentPrice = parseFloat(prices[pos.coin] || '0');
       const liquidationPrice = pos.liquidationPx
         ? parseFloat(pos.liquidationPx)
         : null;
       const positionValue = parseFloat(pos.positionValue);
       const unrealizedPnl = parseFloat(pos.unrealizedPnl);
 
-      // Handle leverage - it might be a number or an object with a value property
-      let leverage: number;
-      if (typeof pos.leverage === 'number') {
-        leverage = pos.leverage;
-      } else if (pos.leverage && typeof pos.leverage === 'object' && 'value' in pos.leverage) {
-        leverage = pos.leverage.value;
-      } else {
-        // Fallback: calculate leverage from position value and margin
-        leverage = Math.abs(positionValue) / (Math.abs(positionValue) / 10);
+      // The account snapshot values the position at the mark, which stands in
+      // for a mid the price feed is missing
+      let currentPrice = parseFloat(prices[pos.coin] ?? '');
+      if (!(currentPrice > 0)) {
+        currentPrice = Math.abs(positionValue / size);
+        logCoercion(`no mid price for ${pos.coin}; using the account's mark ${currentPrice}`);
+      }
+
+      // Leverage is either a plain number or { type, value }; the schema
+      // rejects anything else
+      const leverage = typeof pos.leverage === 'number' ? pos.leverage : pos.leverage.value;
+
+      // Isolated positions own a fixed margin bucket; cross positions draw on account equity
+      const marginMode = getMarginMode(pos);
+      if (marginMode === 'isolated' && !pos.marginUsed) {
+        logCoercion(`isolated ${pos.coin} position reports no margin; using notional / leverage`);
+      }
+      const margin = marginMode === 'isolated' && pos.marginUsed
+        ? parseFloat(pos.marginUsed)
+        : Math.abs(positionValue) / leverage;
+
+      const modelMaintenance = marginModel
+        ? calculateMaintenanceMargin(marginModel, pos.coin, positionValue)
+        : null;
+      if (modelMaintenance === null && !pos.maxLeverage) {
+        logCoercion(`no margin tiers or max leverage for ${pos.coin}; maintenance margin unknown`);
       }
+      const maintenanceMargin = modelMaintenance ?? (pos.maxLeverage
+        ? Math.abs(positionValue) * maintenanceRateForLeverage(pos.maxLeverage)
+        : 0);
 
       return {
         coin: pos.coin,
@@ -279,10 +490,15 @@ export const transformPositions = (
         entryPrice,
         currentPrice,
         leverage,
+        marginMode,
         liquidationPrice,
         unrealizedPnl,
         positionValue: Math.abs(positionValue),
-        margin: Math.abs(positionValue) / leverage,
+        margin,
+        maintenanceMargin,
+        derivedLiquidationPrice: derivedLiquidationPrices[pos.coin] ?? null,
+        cumFundingSinceOpen: pos.cumFunding ? parseFloat(pos.cumFunding.sinceOpen) : 0,
+        isHypothetical: false,
       };
     })
     .filter((pos): pos is Position => pos !== null);
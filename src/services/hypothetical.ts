@@ -0,0 +1,83 @@
+import {
+  Position,
+  CrossPortfolio,
+  HypotheticalTrade,
+  MarginModel,
+} from '../types';
+import { calculateCrossLiquidationPrice, resolveMaintenanceRate } from './portfolio';
+
+/**
+ * Turn a planned trade into a position as if it had filled at its entry price.
+ * Isolated trades get a liquidation price from their own margin; cross trades
+ * are left for the account revaluation to fill in.
+ */
+export const buildHypotheticalPosition = (
+  trade: HypotheticalTrade,
+  currentPrice: number | null,
+  marginModel: MarginModel | null
+): Position => {
+  const direction = trade.side === 'long' ? 1 : -1;
+  const price = currentPrice ?? trade.entryPrice;
+  const maintenanceRate = resolveMaintenanceRate(trade.coin, trade.size * trade.entryPrice, marginModel);
+  const margin = (trade.size * trade.entryPrice) / trade.leverage;
+  const positionValue = trade.size * price;
+  const unrealizedPnl = trade.size * (price - trade.entryPrice) * direction;
+
+  const liquidationPrice = trade.marginMode === 'isolated'
+    ? calculateCrossLiquidationPrice(
+        {
+          accountValue: margin,
+          positions: [
+            { coin: trade.coin, size: direction * trade.size, markPrice: trade.entryPrice, maintenanceRate },
+          ],
+        },
+        trade.coin,
+        {}
+      )
+    : null;
+
+  return {
+    coin: trade.coin,
+    side: trade.side,
+    size: trade.size,
+    entryPrice: trade.entryPrice,
+    currentPrice: price,
+    leverage: trade.leverage,
+    marginMode: trade.marginMode,
+    liquidationPrice,
+    unrealizedPnl,
+    positionValue,
+    // Like marginUsed, an isolated bucket's equity at the current price
+    margin: trade.marginMode === 'isolated' ? margin + unrealizedPnl : margin,
+    maintenanceMargin: positionValue * maintenanceRate,
+    derivedLiquidationPrice: null,
+    cumFundingSinceOpen: 0,
+    isHypothetical: true,
+  };
+};
+
+/**
+ * Add planned cross trades to the cross account. They join at their entry
+ * price, so their PnL at any other price flows into the shared equity.
+ */
+export const addHypotheticalsToPortfolio = (
+  portfolio: CrossPortfolio,
+  hypotheticals: Position[],
+  marginModel: MarginModel | null
+): CrossPortfolio => {
+  const crossTrades = hypotheticals.filter((pos) => pos.marginMode === 'cross');
+  if (crossTrades.length === 0) return portfolio;
+
+  return {
+    ...portfolio,
+    positions: [
+      ...portfolio.positions,
+      ...crossTrades.map((pos) => ({
+        coin: pos.coin,
+        size: pos.side === 'long' ? pos.size : -pos.size,
+        markPrice: pos.entryPrice,
+        maintenanceRate: resolveMaintenanceRate(pos.coin, pos.size * pos.entryPrice, marginModel),
+      })),
+    ],
+  };
+};
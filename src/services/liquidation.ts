@@ -0,0 +1,210 @@
+import {
+  Position,
+  PriceData,
+  CrossPortfolio,
+  PriceVector,
+  L2Book,
+  LiquidationStep,
+  LiquidationProcessResult,
+  MarginModel,
+} from '../types';
+import {
+  calculatePortfolioEquity,
+  calculatePortfolioMaintenance,
+  resolveMaintenanceRate,
+  reportedMaintenanceRate,
+} from './portfolio';
+import { estimateExecution } from './orderBook';
+
+// Hyperliquid's engine sends positions above this notional to the book a
+// fraction at a time, waiting out a cooldown between orders
+const PARTIAL_LIQUIDATION_MIN_NOTIONAL = 100_000;
+const PARTIAL_LIQUIDATION_FRACTION = 0.2;
+const LIQUIDATION_COOLDOWN_MS = 30_000;
+
+// Below this share of maintenance the liquidator vault takes the position over
+const BACKSTOP_MAINTENANCE_FRACTION = 2 / 3;
+
+/**
+ * Linear model of the account around one coin: equity is cash + size * price
+ * and maintenance is otherMaintenance + |size| * price * rate. Other coins
+ * are held fixed, so closing part of the position only moves cash and size.
+ */
+interface LiquidationAccount {
+  size: number; // Signed
+  cash: number;
+  otherMaintenance: number;
+  maintenanceRate: number;
+}
+
+const buildAccount = (
+  position: Position,
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): LiquidationAccount => {
+  const price = position.currentPrice;
+  const crossPosition = crossPortfolio?.positions.find((pos) => pos.coin === position.coin);
+
+  if (position.marginMode === 'cross' && crossPortfolio && crossPosition) {
+    const scenario = { ...prices, [position.coin]: price };
+    const size = crossPosition.size;
+    return {
+      size,
+      cash: calculatePortfolioEquity(crossPortfolio, scenario) - size * price,
+      otherMaintenance: calculatePortfolioMaintenance(crossPortfolio, scenario)
+        - Math.abs(size) * price * crossPosition.maintenanceRate,
+      maintenanceRate: crossPosition.maintenanceRate,
+    };
+  }
+
+  // Isolated: the bucket's margin is its equity at the current price
+  const size = (position.side === 'long' ? 1 : -1) * position.size;
+  return {
+    size,
+    cash: position.margin - size * price,
+    otherMaintenance: 0,
+    maintenanceRate: resolveMaintenanceRate(
+      position.coin,
+      position.positionValue,
+      marginModel,
+      reportedMaintenanceRate(position)
+    ),
+  };
+};
+
+const accountEquity = (account: LiquidationAccount, price: number): number =>
+  account.cash + account.size * price;
+
+const accountMaintenance = (account: LiquidationAccount, price: number): number =>
+  account.otherMaintenance + Math.abs(account.size) * price * account.maintenanceRate;
+
+/**
+ * Equity above maintenance; the engine acts once this goes negative
+ */
+const accountCushion = (account: LiquidationAccount, price: number): number =>
+  accountEquity(account, price) - accountMaintenance(account, price);
+
+/**
+ * One engine action at a mark price: a backstop takeover when equity is below
+ * two thirds of maintenance, otherwise a market close into the book of a
+ * fifth of a large position or all of a small one
+ */
+const liquidate = (
+  account: LiquidationAccount,
+  position: Position,
+  price: number,
+  time: number,
+  book: L2Book | null
+): LiquidationStep => {
+  const direction = Math.sign(account.size);
+  const size = Math.abs(account.size);
+  const equity = accountEquity(account, price);
+
+  if (equity < BACKSTOP_MAINTENANCE_FRACTION * accountMaintenance(account, price)) {
+    // The vault takes the position at the mark and keeps the remaining margin
+    account.cash = 0;
+    account.size = 0;
+    return {
+      kind: 'backstop',
+      time,
+      price,
+      fillPrice: price,
+      sizeClosed: size,
+      remainingSize: 0,
+      remainingEquity: 0,
+      realizedPnl: direction * size * (price - position.entryPrice) - equity,
+    };
+  }
+
+  const isPartial = size * price > PARTIAL_LIQUIDATION_MIN_NOTIONAL;
+  const sizeClosed = isPartial ? size * PARTIAL_LIQUIDATION_FRACTION : size;
+  const fillPrice = (book && estimateExecution(book, position.side, sizeClosed, price)?.averagePrice) || price;
+
+  account.cash += direction * sizeClosed * fillPrice;
+  account.size -= direction * sizeClosed;
+  let realizedPnl = direction * sizeClosed * (fillPrice - position.entryPrice);
+
+  // A close that fills past zero equity leaves bad debt the trader never pays
+  const badDebt = isPartial ? 0 : Math.max(-accountEquity(account, price), 0);
+  account.cash += badDebt;
+  realizedPnl += badDebt;
+
+  return {
+    kind: isPartial ? 'partial' : 'full',
+    time,
+    price,
+    fillPrice,
+    sizeClosed,
+    remainingSize: Math.abs(account.size),
+    remainingEquity: accountEquity(account, price),
+    realizedPnl,
+  };
+};
+
+/**
+ * Run Hyperliquid's liquidation process along a price path. Prices move
+ * linearly between path points, so the engine acts at the exact moment the
+ * account drops below maintenance, then again after each cooldown while it
+ * stays there. Large positions are cut a fifth at a time into the book
+ * (priced with `book` when given), which can bring the account back above
+ * maintenance; a slide below two thirds of maintenance hands what is left
+ * to the backstop. Past the end of the path the price is assumed to hold.
+ * Cross positions are liquidated against the whole account, other coins at
+ * their prices in `prices`; isolated ones take maintenance from the margin
+ * tiers when they cover the coin.
+ */
+export const simulateLiquidationProcess = (
+  position: Position,
+  path: PriceData[],
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  book: L2Book | null,
+  marginModel: MarginModel | null
+): LiquidationProcessResult => {
+  const account = buildAccount(position, crossPortfolio, prices, marginModel);
+  const steps: LiquidationStep[] = [];
+  let readyAt = -Infinity;
+
+  const act = (price: number, time: number) => {
+    steps.push(liquidate(account, position, price, time, book));
+    readyAt = time + LIQUIDATION_COOLDOWN_MS;
+  };
+
+  for (let i = 0; i < path.length && account.size !== 0; i++) {
+    const from = path[Math.max(i - 1, 0)];
+    const to = path[i];
+    const span = to.time - from.time;
+    const priceAt = (time: number) =>
+      span > 0 ? from.price + (to.price - from.price) * (time - from.time) / span : to.price;
+
+    let time = Math.max(from.time, readyAt);
+    while (account.size !== 0 && time <= to.time) {
+      const cushionNow = accountCushion(account, priceAt(time));
+      const cushionEnd = accountCushion(account, to.price);
+      if (cushionNow >= 0 && cushionEnd >= 0) break;
+
+      // Cushion is linear in price, and price in time, within a segment
+      const eventTime = cushionNow < 0
+        ? time
+        : time + (to.time - time) * cushionNow / (cushionNow - cushionEnd);
+      act(priceAt(eventTime), eventTime);
+      time = readyAt;
+    }
+  }
+
+  const last = path[path.length - 1];
+  while (last && account.size !== 0 && accountCushion(account, last.price) < 0) {
+    act(last.price, Math.max(readyAt, last.time));
+  }
+
+  const finalStep = steps[steps.length - 1];
+  return {
+    steps,
+    finalSize: Math.abs(account.size),
+    finalEquity: last ? accountEquity(account, last.price) : accountEquity(account, position.currentPrice),
+    realizedPnl: steps.reduce((sum, step) => sum + step.realizedPnl, 0),
+    isBackstopped: finalStep?.kind === 'backstop',
+    endTime: account.size === 0 && finalStep ? finalStep.time : null,
+  };
+};
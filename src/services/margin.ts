@@ -0,0 +1,160 @@
+import {
+  HyperliquidMeta,
+  HyperliquidAssetCtx,
+  HyperliquidMarginTable,
+  AssetMarginInfo,
+  MarginModel,
+  MarginRequirement,
+  MarginTier,
+} from '../types';
+
+/**
+ * Maintenance margin is half of the initial margin at the maximum leverage
+ */
+export const maintenanceRateForLeverage = (maxLeverage: number): number => {
+  return 1 / (2 * maxLeverage);
+};
+
+/**
+ * Build margin tiers with cumulative deductions so maintenance margin
+ * is continuous at every tier boundary
+ */
+const buildTiers = (
+  maxLeverage: number,
+  table: HyperliquidMarginTable | undefined
+): MarginTier[] => {
+  const rawTiers = table && table.marginTiers.length > 0
+    ? table.marginTiers
+        .map((tier) => ({
+          lowerBound: parseFloat(tier.lowerBound),
+          maxLeverage: Math.min(tier.maxLeverage, maxLeverage),
+        }))
+        .sort((a, b) => a.lowerBound - b.lowerBound)
+    : [{ lowerBound: 0, maxLeverage }];
+
+  const tiers: MarginTier[] = [];
+  rawTiers.forEach((tier, index) => {
+    const maintenanceRate = maintenanceRateForLeverage(tier.maxLeverage);
+    const previous = tiers[index - 1];
+    const maintenanceDeduction = previous
+      ? previous.maintenanceDeduction +
+        tier.lowerBound * (maintenanceRate - previous.maintenanceRate)
+      : 0;
+
+    tiers.push({ ...tier, maintenanceRate, maintenanceDeduction });
+  });
+
+  return tiers;
+};
+
+/**
+ * Build the margin model from the `meta` response, optionally with asset contexts
+ */
+export const buildMarginModel = (
+  meta: HyperliquidMeta,
+  assetCtxs: HyperliquidAssetCtx[] = []
+): MarginModel => {
+  const tables = new Map<number, HyperliquidMarginTable>(meta.marginTables ?? []);
+  const model: MarginModel = {};
+
+  meta.universe.forEach((asset, index) => {
+    const ctx = assetCtxs[index];
+    const markPrice = ctx ? parseFloat(ctx.markPx) : NaN;
+    const table = asset.marginTableId !== undefined ? tables.get(asset.marginTableId) : undefined;
+
+    model[asset.name] = {
+      coin: asset.name,
+      szDecimals: asset.szDecimals,
+      maxLeverage: asset.maxLeverage,
+      onlyIsolated: asset.onlyIsolated ?? false,
+      tiers: buildTiers(asset.maxLeverage, table),
+      markPrice: isNaN(markPrice) ? null : markPrice,
+    };
+  });
+
+  return model;
+};
+
+/**
+ * Find the margin tier that applies to a notional
+ */
+export const getMarginTier = (info: AssetMarginInfo, notional: number): MarginTier => {
+  const absNotional = Math.abs(notional);
+  let current = info.tiers[0];
+  for (const tier of info.tiers) {
+    if (absNotional >= tier.lowerBound) {
+      current = tier;
+    }
+  }
+  return current;
+};
+
+/**
+ * Calculate maintenance margin for a notional, or null when the coin is unknown
+ */
+export const calculateMaintenanceMargin = (
+  model: MarginModel,
+  coin: string,
+  notional: number
+): number | null => {
+  const info = model[coin];
+  if (!info) return null;
+
+  const absNotional = Math.abs(notional);
+  const tier = getMarginTier(info, absNotional);
+  return Math.max(absNotional * tier.maintenanceRate - tier.maintenanceDeduction, 0);
+};
+
+/**
+ * Effective maintenance rate (maintenance margin / notional) at a notional
+ */
+export const getEffectiveMaintenanceRate = (
+  model: MarginModel,
+  coin: string,
+  notional: number
+): number | null => {
+  const info = model[coin];
+  if (!info) return null;
+
+  const absNotional = Math.abs(notional);
+  if (absNotional === 0) return info.tiers[0].maintenanceRate;
+
+  const maintenance = calculateMaintenanceMargin(model, coin, absNotional);
+  return maintenance === null ? null : maintenance / absNotional;
+};
+
+/**
+ * Calculate initial and maintenance requirements for a notional at a leverage
+ */
+export const calculateMarginRequirement = (
+  model: MarginModel,
+  coin: string,
+  notional: number,
+  leverage: number
+): MarginRequirement | null => {
+  const info = model[coin];
+  if (!info) return null;
+
+  const absNotional = Math.abs(notional);
+  const tier = getMarginTier(info, absNotional);
+  const appliedLeverage = Math.min(Math.max(leverage, 1), tier.maxLeverage);
+
+  return {
+    notional: absNotional,
+    leverage: appliedLeverage,
+    initialMargin: absNotional / appliedLeverage,
+    maintenanceMargin: calculateMaintenanceMargin(model, coin, absNotional) ?? 0,
+    tier,
+  };
+};
+
+/**
+ * Round a size to the asset's size decimals
+ */
+export const roundSize = (model: MarginModel, coin: string, size: number): number => {
+  const info = model[coin];
+  if (!info) return size;
+
+  const factor = Math.pow(10, info.szDecimals);
+  return Math.round(size * factor) / factor;
+};
@@ -0,0 +1,204 @@
+import {
+  Position,
+  CandleData,
+  CrossPortfolio,
+  PriceVector,
+  MonteCarloConfig,
+  MonteCarloResult,
+  FanChartPoint,
+  SimulationHorizon,
+} from '../types';
+import { calculatePnL, isPositionLiquidated } from './calculations';
+import { calculatePortfolioEquity, calculatePortfolioMaintenance } from './portfolio';
+import {
+  alignReturns,
+  calculateCorrelation,
+  calculateVolatility,
+  choleskyDecomposition,
+  buildHistogram,
+  percentile,
+  mean,
+  randomNormal,
+} from './statistics';
+
+// Horizon length and number of time steps per path
+export const HORIZON_CONFIG: Record<SimulationHorizon, { hours: number; steps: number }> = {
+  '1H': { hours: 1, steps: 12 },
+  '1D': { hours: 24, steps: 48 },
+  '1W': { hours: 168, steps: 168 },
+};
+
+// Roughly typical for majors; only used when a coin has no candle history
+const FALLBACK_HOURLY_VOLATILITY = 0.01;
+
+// Keeps the fan chart readable regardless of the step count
+const MAX_FAN_POINTS = 60;
+
+/**
+ * Volatility of log returns per hour, scaled from the candle interval
+ */
+export const calculateHourlyVolatility = (candles: CandleData[]): number | null => {
+  if (candles.length < 3) return null;
+
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  const intervalHours = (sorted[1].time - sorted[0].time) / (60 * 60 * 1000);
+  const volatility = calculateVolatility(sorted);
+  if (intervalHours <= 0 || volatility === 0) return null;
+
+  return volatility / Math.sqrt(intervalHours);
+};
+
+/**
+ * Correlation matrix of coins' returns from their candle history
+ */
+const buildCorrelationMatrix = (
+  coins: string[],
+  candlesByCoin: Record<string, CandleData[]>
+): number[][] => {
+  return coins.map((coinA, i) =>
+    coins.map((coinB, j) => {
+      if (i === j) return 1;
+      const { a, b } = alignReturns(candlesByCoin[coinA] ?? [], candlesByCoin[coinB] ?? []);
+      return calculateCorrelation(a, b) ?? 0;
+    })
+  );
+};
+
+/**
+ * Run Monte Carlo price paths (correlated geometric Brownian motion, zero drift)
+ * for the selected position or the whole portfolio over a horizon.
+ * Liquidation is checked at every step; a liquidated leg keeps the PnL it had
+ * at that moment for the rest of the path.
+ */
+export const runMonteCarlo = (
+  positions: Position[],
+  crossPortfolio: CrossPortfolio | null,
+  candlesByCoin: Record<string, CandleData[]>,
+  config: MonteCarloConfig,
+  selectedCoin: string | null
+): MonteCarloResult => {
+  const simulated = config.scope === 'position'
+    ? positions.filter((pos) => pos.coin === selectedCoin)
+    : positions;
+  const coins = simulated.map((pos) => pos.coin);
+
+  const hourlyVolatility: Record<string, number> = {};
+  const missingHistory: string[] = [];
+  coins.forEach((coin) => {
+    const volatility = calculateHourlyVolatility(candlesByCoin[coin] ?? []);
+    if (volatility === null) missingHistory.push(coin);
+    hourlyVolatility[coin] = volatility ?? FALLBACK_HOURLY_VOLATILITY;
+  });
+
+  const { hours, steps } = HORIZON_CONFIG[config.horizon];
+  const dt = hours / steps;
+  const stepVolatility = coins.map((coin) => hourlyVolatility[coin] * Math.sqrt(dt));
+  const drift = stepVolatility.map((vol) => -0.5 * vol * vol);
+  const cholesky = choleskyDecomposition(buildCorrelationMatrix(coins, candlesByCoin));
+
+  const crossCoins = new Set(crossPortfolio?.positions.map((pos) => pos.coin) ?? []);
+  const checkAccount = config.scope === 'portfolio' && crossPortfolio !== null &&
+    simulated.some((pos) => pos.marginMode === 'cross');
+  const startPnl = simulated.map((pos) => calculatePnL(pos, pos.currentPrice));
+
+  const fanStride = Math.max(1, Math.ceil(steps / MAX_FAN_POINTS));
+  const fanSteps: number[] = [];
+  for (let step = 0; step <= steps; step += fanStride) fanSteps.push(step);
+  if (fanSteps[fanSteps.length - 1] !== steps) fanSteps.push(steps);
+  const fanValues = fanSteps.map(() => new Float64Array(config.pathCount));
+
+  const endingPnl: number[] = new Array(config.pathCount);
+  let liquidatedPaths = 0;
+
+  for (let path = 0; path < config.pathCount; path++) {
+    const prices = simulated.map((pos) => pos.currentPrice);
+    const frozenPnl: (number | null)[] = simulated.map(() => null);
+    let pathLiquidated = false;
+    let fanIndex = 0;
+
+    for (let step = 0; step <= steps; step++) {
+      if (step > 0) {
+        const shocks = coins.map(() => randomNormal());
+        for (let i = 0; i < coins.length; i++) {
+          let correlated = 0;
+          for (let k = 0; k <= i; k++) correlated += cholesky[i][k] * shocks[k];
+          prices[i] *= Math.exp(drift[i] + stepVolatility[i] * correlated);
+        }
+
+        // Cross positions go down together with the account
+        if (checkAccount) {
+          const vector: PriceVector = {};
+          coins.forEach((coin, i) => { vector[coin] = prices[i]; });
+          const accountLiquidated = calculatePortfolioEquity(crossPortfolio!, vector) <=
+            calculatePortfolioMaintenance(crossPortfolio!, vector);
+          if (accountLiquidated) {
+            simulated.forEach((pos, i) => {
+              if (frozenPnl[i] === null && crossCoins.has(pos.coin)) {
+                frozenPnl[i] = calculatePnL(pos, prices[i]);
+                pathLiquidated = true;
+              }
+            });
+          }
+        }
+
+        // Isolated positions, and any position simulated alone, use their own level
+        simulated.forEach((pos, i) => {
+          const usesOwnLevel = !checkAccount || pos.marginMode === 'isolated';
+          if (frozenPnl[i] === null && usesOwnLevel && isPositionLiquidated(pos, prices[i])) {
+            frozenPnl[i] = calculatePnL(pos, prices[i]);
+            pathLiquidated = true;
+          }
+        });
+      }
+
+      if (step === fanSteps[fanIndex]) {
+        fanValues[fanIndex][path] = config.scope === 'position'
+          ? prices[0]
+          : simulated.reduce(
+              (sum, pos, i) => sum + (frozenPnl[i] ?? calculatePnL(pos, prices[i])) - startPnl[i],
+              0
+            );
+        fanIndex++;
+      }
+    }
+
+    endingPnl[path] = simulated.reduce(
+      (sum, pos, i) => sum + (frozenPnl[i] ?? calculatePnL(pos, prices[i])) - startPnl[i],
+      0
+    );
+    if (pathLiquidated) liquidatedPaths++;
+  }
+
+  const sortedPnl = [...endingPnl].sort((a, b) => a - b);
+  const fan: FanChartPoint[] = fanSteps.map((step, index) => {
+    const sorted = Array.from(fanValues[index]).sort((a, b) => a - b);
+    return {
+      hour: step * dt,
+      p5: percentile(sorted, 5),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95),
+    };
+  });
+
+  return {
+    config,
+    liquidationProbability: config.pathCount > 0 ? liquidatedPaths / config.pathCount : 0,
+    expectedPnl: mean(endingPnl),
+    pnlPercentiles: {
+      p1: percentile(sortedPnl, 1),
+      p5: percentile(sortedPnl, 5),
+      p25: percentile(sortedPnl, 25),
+      p50: percentile(sortedPnl, 50),
+      p75: percentile(sortedPnl, 75),
+      p95: percentile(sortedPnl, 95),
+      p99: percentile(sortedPnl, 99),
+    },
+    histogram: buildHistogram(endingPnl),
+    fan,
+    fanUnit: config.scope === 'position' ? 'price' : 'pnl',
+    hourlyVolatility,
+    missingHistory,
+  };
+};
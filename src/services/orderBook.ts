@@ -0,0 +1,88 @@
+import { Position, L2Book, ExecutionEstimate, CloseImpactEstimate } from '../types';
+import { calculatePnL } from './calculations';
+
+/**
+ * Midpoint of the best bid and ask
+ */
+export const calculateBookMid = (book: L2Book): number | null => {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (!bestBid || !bestAsk) return null;
+  return (bestBid + bestAsk) / 2;
+};
+
+/**
+ * Walk the side of the book that closes a position: longs sell into bids,
+ * shorts buy from asks. Level prices are rescaled so the book's mid sits at
+ * the reference price, which keeps today's depth profile when estimating a
+ * close somewhere else (e.g. at the liquidation price).
+ */
+export const estimateExecution = (
+  book: L2Book,
+  side: 'long' | 'short',
+  size: number,
+  referencePrice: number
+): ExecutionEstimate | null => {
+  const mid = calculateBookMid(book);
+  if (mid === null || size <= 0 || referencePrice <= 0) return null;
+
+  const levels = side === 'long' ? book.bids : book.asks;
+  const scale = referencePrice / mid;
+
+  let remaining = size;
+  let notional = 0;
+  let worstPrice = referencePrice;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.size);
+    worstPrice = level.price * scale;
+    notional += take * worstPrice;
+    remaining -= take;
+  }
+
+  // Size beyond the visible depth is assumed to fill at the worst visible level
+  const unfilledSize = Math.max(remaining, 0);
+  notional += unfilledSize * worstPrice;
+
+  const averagePrice = notional / size;
+  const adverseMove = side === 'long'
+    ? referencePrice - averagePrice
+    : averagePrice - referencePrice;
+
+  return {
+    referencePrice,
+    averagePrice,
+    worstPrice,
+    slippage: Math.max((adverseMove / referencePrice) * 100, 0),
+    impactCost: Math.max(adverseMove * size, 0),
+    filledSize: size - unfilledSize,
+    unfilledSize,
+  };
+};
+
+/**
+ * Estimate the cost of closing a position now at the mid, and of the forced
+ * close at its liquidation price
+ */
+export const estimateCloseImpact = (
+  position: Position,
+  book: L2Book,
+  liquidationPrice: number | null
+): CloseImpactEstimate | null => {
+  const mid = calculateBookMid(book);
+  if (mid === null) return null;
+
+  const close = estimateExecution(book, position.side, position.size, mid);
+  if (!close) return null;
+
+  const liquidation = liquidationPrice
+    ? estimateExecution(book, position.side, position.size, liquidationPrice)
+    : null;
+
+  return {
+    coin: position.coin,
+    close,
+    liquidation,
+    liquidationPnl: liquidation ? calculatePnL(position, liquidation.averagePrice) : null,
+  };
+};
@@ -0,0 +1,222 @@
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  OpenOrder,
+  SimulatedOrder,
+  OrderFill,
+  OrderPathResult,
+  MarginModel,
+} from '../types';
+import { NO_EDIT, applyPositionEdit } from './whatIf';
+
+/**
+ * Normalize a coin's open orders for path simulation. Triggers are assumed to
+ * fill at their trigger price, including stop and take-profit limits.
+ */
+export const toSimulatedOrders = (orders: OpenOrder[], coin: string): SimulatedOrder[] => {
+  return orders
+    .filter((order) => order.coin === coin)
+    .map((order): SimulatedOrder | null => {
+      const limitPx = parseFloat(order.limitPx);
+      const triggerPx = parseFloat(order.triggerPx ?? '');
+      const size = parseFloat(order.sz);
+      const isTrigger = !!order.isTrigger && triggerPx > 0;
+      const price = isTrigger ? triggerPx : limitPx;
+      if (!(price > 0)) return null;
+
+      return {
+        oid: order.oid,
+        coin: order.coin,
+        side: order.side === 'B' ? 'buy' : 'sell',
+        kind: !isTrigger ? 'limit' : order.orderType?.startsWith('Take Profit') ? 'takeProfit' : 'stop',
+        price,
+        // Position TP/SL orders report no size and close whatever is open
+        size: order.isPositionTpsl || !(size > 0) ? null : size,
+        reduceOnly: !!order.reduceOnly || !!order.isPositionTpsl,
+      };
+    })
+    .filter((order): order is SimulatedOrder => order !== null);
+};
+
+/**
+ * Whether an order fires when the price falls to its level (otherwise when it rises).
+ * Limit buys and take-profit buys wait below the market, stop sells protect longs below it.
+ */
+const triggersOnDrop = (order: SimulatedOrder): boolean => {
+  return order.kind === 'stop' ? order.side === 'sell' : order.side === 'buy';
+};
+
+/**
+ * Whether a move from `from` to `to` reaches a level in the given direction
+ */
+const reachesLevel = (from: number, to: number, level: number, onDrop: boolean): boolean => {
+  return onDrop ? from > level && to <= level : from < level && to >= level;
+};
+
+/**
+ * Move a position to a new price. Isolated margin is the bucket's equity,
+ * so it carries the PnL of the move.
+ */
+const revalue = (position: Position, price: number): Position => {
+  const direction = position.side === 'long' ? 1 : -1;
+  return {
+    ...position,
+    currentPrice: price,
+    positionValue: position.size * price,
+    unrealizedPnl: position.size * (price - position.entryPrice) * direction,
+    margin: position.marginMode === 'isolated'
+      ? position.margin + position.size * (price - position.currentPrice) * direction
+      : position.margin,
+  };
+};
+
+/**
+ * Signed size change an order makes to the position, or null if it cannot fill.
+ * Orders never flip the position: the opposite side at most closes it.
+ */
+const orderSizeChange = (position: Position, order: SimulatedOrder): number | null => {
+  const isFlat = position.size === 0;
+  const addsToPosition = (order.side === 'buy') === (position.side === 'long');
+
+  if (order.reduceOnly) {
+    if (isFlat || addsToPosition) return null;
+    return -Math.min(order.size ?? position.size, position.size);
+  }
+  if (order.size === null) return isFlat ? null : -position.size;
+  if (isFlat || addsToPosition) return order.size;
+  return -Math.min(order.size, position.size);
+};
+
+/**
+ * Walk a price path, filling orders and checking liquidation between each pair
+ * of points in the order the price reaches them. A fill and the liquidation
+ * level at the same price resolve in favor of the fill.
+ */
+const walkPath = (
+  position: Position,
+  orders: SimulatedOrder[],
+  path: number[],
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): Omit<OrderPathResult, 'liquidatedWithoutOrders'> => {
+  let current = position;
+  let portfolio = crossPortfolio;
+  let liquidationPrice = position.liquidationPrice;
+  let realizedPnl = 0;
+  let liquidationStep: number | null = null;
+  let liquidatedAt: number | null = null;
+  let pending = [...orders];
+  const fills: OrderFill[] = [];
+
+  const pnlAt = (price: number) =>
+    realizedPnl + current.size * (price - current.entryPrice) * (current.side === 'long' ? 1 : -1);
+  const pnlPath = [pnlAt(path[0])];
+  const sizePath = [current.size];
+
+  for (let step = 1; step < path.length; step++) {
+    let from = path[step - 1];
+    const to = path[step];
+
+    while (liquidationStep === null) {
+      // Nearest level the price reaches on the way to the next point
+      let next: { price: number; order: SimulatedOrder | null } | null = null;
+      for (const order of pending) {
+        if (!reachesLevel(from, to, order.price, triggersOnDrop(order))) continue;
+        if (!next || Math.abs(order.price - from) < Math.abs(next.price - from)) {
+          next = { price: order.price, order };
+        }
+      }
+      const liquidationHit = current.size > 0 && liquidationPrice !== null &&
+        reachesLevel(from, to, liquidationPrice, current.side === 'long');
+      if (liquidationHit && (!next || Math.abs(liquidationPrice! - from) < Math.abs(next.price - from))) {
+        next = { price: liquidationPrice!, order: null };
+      }
+      if (!next) break;
+
+      if (!next.order) {
+        realizedPnl = pnlAt(next.price);
+        liquidationStep = step;
+        liquidatedAt = next.price;
+        current = { ...current, size: 0 };
+        break;
+      }
+
+      const order = next.order;
+      pending = pending.filter((o) => o.oid !== order.oid);
+      from = next.price;
+
+      const sizeChange = orderSizeChange(current, order);
+      if (sizeChange === null || sizeChange === 0) continue;
+
+      // A flat position reopens on the order's side
+      const atLevel = revalue(
+        current.size === 0 ? { ...current, side: order.side === 'buy' ? 'long' : 'short' } : current,
+        order.price
+      );
+      const edit = applyPositionEdit(
+        atLevel,
+        { ...NO_EDIT, sizeChange, executionPrice: order.price },
+        portfolio,
+        prices,
+        marginModel
+      );
+
+      realizedPnl += edit.realizedPnl;
+      current = edit.position;
+      portfolio = edit.crossPortfolio;
+      liquidationPrice = edit.position.liquidationPrice;
+      fills.push({
+        oid: order.oid,
+        kind: order.kind,
+        side: order.side,
+        step,
+        price: order.price,
+        sizeChange,
+        realizedPnl: edit.realizedPnl,
+      });
+    }
+
+    pnlPath.push(liquidationStep === null ? pnlAt(to) : realizedPnl);
+    sizePath.push(current.size);
+  }
+
+  return {
+    fills,
+    pnlPath,
+    sizePath,
+    liquidationStep,
+    finalPnl: pnlPath[pnlPath.length - 1],
+    finalSize: current.size,
+    finalLiquidationPrice: liquidationStep === null && current.size > 0 ? liquidationPrice : null,
+    liquidatedAt,
+  };
+};
+
+/**
+ * Run a position along a price path with its open orders working. Each fill
+ * changes the size and recomputes liquidation from that point on, so the result
+ * shows whether a stop-loss triggers before the position is liquidated.
+ * Other coins in a cross account are held at their current prices.
+ */
+export const simulateOrdersOnPath = (
+  position: Position,
+  orders: SimulatedOrder[],
+  path: number[],
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): OrderPathResult | null => {
+  if (path.length === 0) return null;
+
+  const withOrders = walkPath(position, orders, path, crossPortfolio, prices, marginModel);
+  const withoutOrders = orders.length > 0
+    ? walkPath(position, [], path, crossPortfolio, prices, marginModel)
+    : withOrders;
+
+  return {
+    ...withOrders,
+    liquidatedWithoutOrders: withoutOrders.liquidationStep !== null,
+  };
+};
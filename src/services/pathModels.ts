@@ -0,0 +1,172 @@
+import {
+  CandleData,
+  PathModelType,
+  PathModelConfig,
+  PathModelCalibration,
+} from '../types';
+import {
+  calculateLogReturns,
+  standardDeviation,
+  mean,
+  randomNormal,
+  createSeededRandom,
+} from './statistics';
+
+export const PATH_MODEL_LABELS: Record<PathModelType, string> = {
+  gbm: 'GBM',
+  jumpDiffusion: 'Jump diffusion',
+  garch: 'GARCH',
+  bootstrap: 'Bootstrap',
+};
+
+// Roughly typical for majors; used when a coin has no candle history
+const FALLBACK_CALIBRATION: PathModelCalibration = {
+  volatility: 0.01,
+  diffusionVolatility: 0.009,
+  jumpIntensity: 0.01,
+  jumpMean: 0,
+  jumpVolatility: 0.04,
+  garch: { omega: 0.0001 * (1 - 0.08 - 0.9), alpha: 0.08, beta: 0.9 },
+  returns: [],
+};
+
+// Returns further than this many standard deviations from the mean count as jumps
+const JUMP_THRESHOLD_SIGMAS = 3;
+
+// Grid searched for the GARCH(1,1) fit; persistence is kept below one
+const GARCH_ALPHAS = [0.02, 0.05, 0.08, 0.12, 0.16];
+const GARCH_BETAS = [0.7, 0.8, 0.85, 0.9, 0.94];
+const MAX_GARCH_PERSISTENCE = 0.995;
+
+/**
+ * New random seed for a path; share it to re-run the same path
+ */
+export const createSeed = (): number => Math.floor(Math.random() * 2147483647);
+
+/**
+ * Gaussian log-likelihood of returns under a GARCH(1,1) variance recursion
+ * started at the sample variance
+ */
+const garchLogLikelihood = (
+  returns: number[],
+  omega: number,
+  alpha: number,
+  beta: number,
+  variance: number
+): number => {
+  let h = variance;
+  let likelihood = 0;
+  returns.forEach((r) => {
+    likelihood -= Math.log(h) + (r * r) / h;
+    h = omega + alpha * r * r + beta * h;
+  });
+  return likelihood;
+};
+
+/**
+ * Calibrate every path model from candle history. Returns are rescaled to
+ * hourly so the models can step at any interval. GARCH keeps the sample
+ * variance as its long-run level and picks alpha and beta by likelihood.
+ */
+export const calibratePathModel = (candles: CandleData[]): PathModelCalibration | null => {
+  if (candles.length < 3) return null;
+
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  const intervalHours = (sorted[1].time - sorted[0].time) / (60 * 60 * 1000);
+  if (intervalHours <= 0) return null;
+
+  const returns = calculateLogReturns(sorted).map((r) => r / Math.sqrt(intervalHours));
+  const volatility = standardDeviation(returns);
+  if (returns.length < 2 || volatility === 0) return null;
+
+  const center = mean(returns);
+  const jumps = returns.filter((r) => Math.abs(r - center) > JUMP_THRESHOLD_SIGMAS * volatility);
+  const diffusion = returns.filter((r) => Math.abs(r - center) <= JUMP_THRESHOLD_SIGMAS * volatility);
+
+  const variance = volatility * volatility;
+  let garch = { omega: variance * (1 - 0.08 - 0.9), alpha: 0.08, beta: 0.9 };
+  let bestLikelihood = -Infinity;
+  GARCH_ALPHAS.forEach((alpha) => {
+    GARCH_BETAS.forEach((beta) => {
+      if (alpha + beta >= MAX_GARCH_PERSISTENCE) return;
+      const omega = variance * (1 - alpha - beta);
+      const likelihood = garchLogLikelihood(returns, omega, alpha, beta, variance);
+      if (likelihood > bestLikelihood) {
+        bestLikelihood = likelihood;
+        garch = { omega, alpha, beta };
+      }
+    });
+  });
+
+  return {
+    volatility,
+    diffusionVolatility: standardDeviation(diffusion) || volatility,
+    jumpIntensity: jumps.length / returns.length,
+    jumpMean: jumps.length > 0 ? mean(jumps) : 0,
+    jumpVolatility: jumps.length > 1 ? standardDeviation(jumps) : JUMP_THRESHOLD_SIGMAS * volatility,
+    garch,
+    returns,
+  };
+};
+
+/**
+ * Poisson draw (Knuth), fine for the small rates of a single step
+ */
+const poisson = (rate: number, random: () => number): number => {
+  const limit = Math.exp(-rate);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+/**
+ * Draw a sequence of log returns, one per step of `stepHours`, from a model
+ */
+export const generateModelReturns = (
+  model: PathModelConfig,
+  steps: number,
+  stepHours: number
+): number[] => {
+  const random = createSeededRandom(model.seed);
+  const calibration = model.calibration ?? FALLBACK_CALIBRATION;
+  const scale = Math.sqrt(stepHours);
+
+  switch (model.type) {
+    case 'jumpDiffusion':
+      return Array.from({ length: steps }, () => {
+        let r = calibration.diffusionVolatility * scale * randomNormal(random);
+        const jumps = poisson(calibration.jumpIntensity * stepHours, random);
+        for (let j = 0; j < jumps; j++) {
+          r += calibration.jumpMean + calibration.jumpVolatility * randomNormal(random);
+        }
+        return r;
+      });
+
+    case 'garch': {
+      const { omega, alpha, beta } = calibration.garch;
+      let variance = calibration.volatility * calibration.volatility;
+      return Array.from({ length: steps }, () => {
+        const hourly = Math.sqrt(variance) * randomNormal(random);
+        variance = omega + alpha * hourly * hourly + beta * variance;
+        return hourly * scale;
+      });
+    }
+
+    case 'bootstrap':
+      if (calibration.returns.length > 0) {
+        return Array.from({ length: steps }, () =>
+          calibration.returns[Math.floor(random() * calibration.returns.length)] * scale
+        );
+      }
+      // No history to resample: plain Gaussian steps
+      return Array.from({ length: steps }, () => calibration.volatility * scale * randomNormal(random));
+
+    case 'gbm':
+    default:
+      return Array.from({ length: steps }, () => calibration.volatility * scale * randomNormal(random));
+  }
+};
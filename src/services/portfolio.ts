@@ -0,0 +1,232 @@
+import {
+  HyperliquidClearinghouseState,
+  HyperliquidPosition,
+  AllMidsResponse,
+  CrossPortfolio,
+  PortfolioPosition,
+  PortfolioEvaluation,
+  PriceVector,
+  MarginModel,
+  MarginMode,
+  Position,
+} from '../types';
+import { getEffectiveMaintenanceRate, maintenanceRateForLeverage } from './margin';
+
+// Used when neither the margin tiers, the position nor the account give a maintenance requirement
+export const DEFAULT_MAINTENANCE_RATE = 0.025;
+
+/**
+ * Read the margin mode of an API position. Plain numeric leverage means cross.
+ */
+export const getMarginMode = (pos: HyperliquidPosition): MarginMode => {
+  if (typeof pos.leverage === 'object' && pos.leverage !== null) {
+    return pos.leverage.type === 'isolated' ? 'isolated' : 'cross';
+  }
+  return 'cross';
+};
+
+/**
+ * Maintenance margin rate (maintenance / notional) of a coin at a notional.
+ * The margin tiers decide when they cover the coin; otherwise a rate the
+ * caller already knows, such as the position's own, then the default.
+ */
+export const resolveMaintenanceRate = (
+  coin: string,
+  notional: number,
+  marginModel: MarginModel | null,
+  knownRate: number | null = null
+): number => {
+  const rate = marginModel ? getEffectiveMaintenanceRate(marginModel, coin, notional) : null;
+  return rate ?? knownRate ?? DEFAULT_MAINTENANCE_RATE;
+};
+
+/**
+ * Maintenance rate a position reports, null when it carries no requirement
+ */
+export const reportedMaintenanceRate = (position: Position): number | null =>
+  position.positionValue > 0 && position.maintenanceMargin > 0
+    ? position.maintenanceMargin / position.positionValue
+    : null;
+
+/**
+ * Maintenance rate of an API position. Without margin tiers, Hyperliquid sets
+ * maintenance margin at half the initial margin at max leverage.
+ */
+const apiPositionMaintenanceRate = (
+  pos: HyperliquidPosition,
+  accountRate: number | null,
+  marginModel: MarginModel | null
+): number =>
+  resolveMaintenanceRate(
+    pos.coin,
+    parseFloat(pos.positionValue),
+    marginModel,
+    pos.maxLeverage && pos.maxLeverage > 0 ? maintenanceRateForLeverage(pos.maxLeverage) : accountRate
+  );
+
+/**
+ * Build the cross-margin portfolio from a clearinghouse snapshot.
+ * With a margin model, maintenance rates come from the asset's margin tiers
+ * instead of what the account reports.
+ */
+export const buildCrossPortfolio = (
+  clearinghouseState: HyperliquidClearinghouseState,
+  marginModel: MarginModel | null = null
+): CrossPortfolio => {
+  const totalNotional = parseFloat(clearinghouseState.crossMarginSummary.totalNtlPos);
+  const maintenanceUsed = clearinghouseState.crossMaintenanceMarginUsed
+    ? parseFloat(clearinghouseState.crossMaintenanceMarginUsed)
+    : NaN;
+  const accountRate =
+    totalNotional > 0 && !isNaN(maintenanceUsed) ? maintenanceUsed / totalNotional : null;
+
+  const positions = clearinghouseState.assetPositions
+    .map((item) => item.position)
+    .filter((pos) => parseFloat(pos.szi) !== 0 && getMarginMode(pos) === 'cross')
+    .map((pos): PortfolioPosition => {
+      const size = parseFloat(pos.szi);
+      return {
+        coin: pos.coin,
+        size,
+        markPrice: Math.abs(parseFloat(pos.positionValue) / size),
+        maintenanceRate: apiPositionMaintenanceRate(pos, accountRate, marginModel),
+      };
+    });
+
+  return {
+    accountValue: parseFloat(clearinghouseState.crossMarginSummary.accountValue),
+    positions,
+  };
+};
+
+/**
+ * Convert mid prices from the API into a numeric price vector
+ */
+export const toPriceVector = (prices: AllMidsResponse): PriceVector => {
+  const vector: PriceVector = {};
+  Object.entries(prices).forEach(([coin, price]) => {
+    const value = parseFloat(price);
+    if (!isNaN(value)) {
+      vector[coin] = value;
+    }
+  });
+  return vector;
+};
+
+/**
+ * Price of a position's coin in the vector, falling back to the snapshot mark
+ */
+const priceFor = (position: PortfolioPosition, prices: PriceVector): number => {
+  return prices[position.coin] ?? position.markPrice;
+};
+
+/**
+ * Calculate cross account equity at a price vector
+ */
+export const calculatePortfolioEquity = (
+  portfolio: CrossPortfolio,
+  prices: PriceVector
+): number => {
+  return portfolio.positions.reduce(
+    (equity, pos) => equity + pos.size * (priceFor(pos, prices) - pos.markPrice),
+    portfolio.accountValue
+  );
+};
+
+/**
+ * Calculate cross maintenance margin requirement at a price vector
+ */
+export const calculatePortfolioMaintenance = (
+  portfolio: CrossPortfolio,
+  prices: PriceVector
+): number => {
+  return portfolio.positions.reduce(
+    (total, pos) => total + Math.abs(pos.size) * priceFor(pos, prices) * pos.maintenanceRate,
+    0
+  );
+};
+
+/**
+ * Calculate the price of one coin at which the whole cross account is liquidated,
+ * holding every other coin at its price in the vector
+ */
+export const calculateCrossLiquidationPrice = (
+  portfolio: CrossPortfolio,
+  coin: string,
+  prices: PriceVector
+): number | null => {
+  const position = portfolio.positions.find((pos) => pos.coin === coin);
+  if (!position) return null;
+
+  const price = priceFor(position, prices);
+  const otherEquity =
+    calculatePortfolioEquity(portfolio, prices) - position.size * price;
+  const otherMaintenance =
+    calculatePortfolioMaintenance(portfolio, prices) -
+    Math.abs(position.size) * price * position.maintenanceRate;
+
+  // Solve otherEquity + size * p = otherMaintenance + |size| * p * rate for p
+  const denominator = position.size - Math.abs(position.size) * position.maintenanceRate;
+  if (denominator === 0) return null;
+
+  const liquidationPrice = (otherMaintenance - otherEquity) / denominator;
+  return liquidationPrice > 0 ? liquidationPrice : null;
+};
+
+/**
+ * Revalue the whole cross account at a price vector
+ */
+export const evaluatePortfolio = (
+  portfolio: CrossPortfolio,
+  prices: PriceVector
+): PortfolioEvaluation => {
+  const equity = calculatePortfolioEquity(portfolio, prices);
+  const maintenanceMargin = calculatePortfolioMaintenance(portfolio, prices);
+
+  const liquidationPrices: Record<string, number | null> = {};
+  portfolio.positions.forEach((pos) => {
+    liquidationPrices[pos.coin] = calculateCrossLiquidationPrice(portfolio, pos.coin, prices);
+  });
+
+  return {
+    equity,
+    maintenanceMargin,
+    marginRatio: equity > 0 ? maintenanceMargin / equity : Infinity,
+    isLiquidated: portfolio.positions.length > 0 && equity <= maintenanceMargin,
+    liquidationPrices,
+  };
+};
+
+/**
+ * Derive liquidation prices for every open position from the margin model,
+ * independently of the liquidationPx the API reports.
+ * Isolated positions are treated as a single-position account funded by their own margin.
+ */
+export const deriveLiquidationPrices = (
+  clearinghouseState: HyperliquidClearinghouseState,
+  marginModel: MarginModel
+): Record<string, number | null> => {
+  const crossPortfolio = buildCrossPortfolio(clearinghouseState, marginModel);
+  const derived = evaluatePortfolio(crossPortfolio, {}).liquidationPrices;
+
+  clearinghouseState.assetPositions
+    .map((item) => item.position)
+    .filter((pos) => parseFloat(pos.szi) !== 0 && getMarginMode(pos) === 'isolated')
+    .forEach((pos) => {
+      const size = parseFloat(pos.szi);
+      const isolatedPortfolio: CrossPortfolio = {
+        accountValue: parseFloat(pos.marginUsed ?? '0'),
+        positions: [
+          {
+            coin: pos.coin,
+            size,
+            markPrice: Math.abs(parseFloat(pos.positionValue) / size),
+            maintenanceRate: apiPositionMaintenanceRate(pos, null, marginModel),
+          },
+        ],
+      };
+      derived[pos.coin] = calculateCrossLiquidationPrice(isolatedPortfolio, pos.coin, {});
+    });
+
+  return derived;
+};
@@ -0,0 +1,193 @@
+import {
+  Position,
+  CandleData,
+  CrossPortfolio,
+  PriceVector,
+  ReplayCandle,
+  ReplayResult,
+  SimulatedOrder,
+  OrderPathResult,
+  MarginModel,
+} from '../types';
+import { calculatePnL } from './calculations';
+import { simulateOrdersOnPath } from './orders';
+
+// Path points per candle: open, both extremes, close
+const POINTS_PER_CANDLE = 4;
+
+/**
+ * Check whether a candle's intrabar range crosses the liquidation price
+ */
+const candleCrossesLiquidation = (
+  position: Position,
+  candle: CandleData
+): boolean => {
+  if (!position.liquidationPrice) return false;
+
+  if (position.side === 'long') {
+    return candle.low <= position.liquidationPrice;
+  }
+  return candle.high >= position.liquidationPrice;
+};
+
+/**
+ * Intrabar path of a candle. Up candles are assumed to trade down to the low
+ * first, down candles up to the high first, the usual worst-case ordering.
+ */
+const candlePathPoints = (candle: CandleData): number[] => {
+  return candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+};
+
+/**
+ * Run open orders along the candles' intrabar path and report the result per
+ * candle: steps point at candles and PnL and size are taken at each close.
+ */
+const replayOrders = (
+  position: Position,
+  candles: CandleData[],
+  orders: SimulatedOrder[],
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): OrderPathResult | null => {
+  const path = simulateOrdersOnPath(
+    position,
+    orders,
+    candles.flatMap(candlePathPoints),
+    crossPortfolio,
+    prices,
+    marginModel
+  );
+  if (!path) return null;
+
+  const toCandle = (step: number) => Math.floor(step / POINTS_PER_CANDLE);
+  const atCloses = (values: number[]) =>
+    candles.map((_, index) => values[index * POINTS_PER_CANDLE + POINTS_PER_CANDLE - 1]);
+
+  return {
+    ...path,
+    fills: path.fills.map((fill) => ({ ...fill, step: toCandle(fill.step) })),
+    pnlPath: atCloses(path.pnlPath),
+    sizePath: atCloses(path.sizePath),
+    liquidationStep: path.liquidationStep === null ? null : toCandle(path.liquidationStep),
+  };
+};
+
+/**
+ * Find the window of a given length with the worst move against the position:
+ * the deepest drop from the window's open for longs, the highest rally for shorts.
+ * Highs and lows are used so intrabar extremes count.
+ */
+export const findWorstWindow = (
+  candles: CandleData[],
+  side: 'long' | 'short',
+  windowMs: number
+): { startIndex: number; endIndex: number; move: number } | null => {
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  let worst: { startIndex: number; endIndex: number; move: number } | null = null;
+
+  for (let start = 0; start < sorted.length; start++) {
+    const base = sorted[start].open;
+    if (base <= 0) continue;
+
+    let extreme = side === 'long' ? Infinity : -Infinity;
+    let end = start;
+    for (let i = start; i < sorted.length && sorted[i].time < sorted[start].time + windowMs; i++) {
+      extreme = side === 'long' ? Math.min(extreme, sorted[i].low) : Math.max(extreme, sorted[i].high);
+      end = i;
+    }
+
+    const move = (extreme / base - 1) * 100;
+    const isWorse = worst === null || (side === 'long' ? move < worst.move : move > worst.move);
+    if (isWorse) {
+      worst = { startIndex: start, endIndex: end, move };
+    }
+  }
+
+  return worst;
+};
+
+/**
+ * Replay the percentage path of historical candles against a position.
+ * Each candle is rescaled so the path's first open equals the current price,
+ * and liquidation is flagged on the first candle whose high or low crosses it.
+ * With open orders, fills along the way resize the position and move its
+ * liquidation price before later candles are checked.
+ */
+export const replayPath = (
+  position: Position,
+  candles: CandleData[],
+  label: string,
+  orderContext?: {
+    orders: SimulatedOrder[];
+    crossPortfolio: CrossPortfolio | null;
+    prices: PriceVector;
+    marginModel: MarginModel | null;
+  }
+): ReplayResult | null => {
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  if (sorted.length === 0 || sorted[0].open <= 0) return null;
+
+  const scale = position.currentPrice / sorted[0].open;
+  const scaledCandles: CandleData[] = sorted.map((candle) => ({
+    time: candle.time,
+    open: candle.open * scale,
+    high: candle.high * scale,
+    low: candle.low * scale,
+    close: candle.close * scale,
+    volume: candle.volume,
+  }));
+
+  const orderPath = orderContext && orderContext.orders.length > 0
+    ? replayOrders(
+        position,
+        scaledCandles,
+        orderContext.orders,
+        orderContext.crossPortfolio,
+        orderContext.prices,
+        orderContext.marginModel
+      )
+    : null;
+
+  let liquidationIndex: number | null = orderPath ? orderPath.liquidationStep : null;
+  let frozenPnl: number | null = null;
+
+  const replayCandles: ReplayCandle[] = scaledCandles.map((scaled, index) => {
+    if (orderPath) {
+      return {
+        ...scaled,
+        sourceTime: sorted[index].time,
+        pnl: orderPath.pnlPath[index],
+        isLiquidationCandle: index === orderPath.liquidationStep,
+      };
+    }
+
+    const isLiquidationCandle = liquidationIndex === null && candleCrossesLiquidation(position, scaled);
+    if (isLiquidationCandle) {
+      liquidationIndex = index;
+      frozenPnl = calculatePnL(position, position.liquidationPrice!);
+    }
+
+    return {
+      ...scaled,
+      sourceTime: sorted[index].time,
+      pnl: frozenPnl ?? calculatePnL(position, scaled.close),
+      isLiquidationCandle,
+    };
+  });
+
+  return {
+    coin: position.coin,
+    side: position.side,
+    label,
+    windowStart: sorted[0].time,
+    windowEnd: sorted[sorted.length - 1].time,
+    candles: replayCandles,
+    liquidationIndex,
+    worstPnl: Math.min(...replayCandles.map((candle) => candle.pnl)),
+    finalPnl: replayCandles[replayCandles.length - 1].pnl,
+    orderPath,
+  };
+};
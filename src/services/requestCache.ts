@@ -0,0 +1,59 @@
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number; // Infinity while the request is in flight
+}
+
+export interface RequestCache {
+  get: <T>(key: string, ttlMs: number, load: () => Promise<T>) => Promise<T>;
+  invalidate: (matches?: (key: string) => boolean) => void;
+}
+
+/**
+ * Promise cache keyed by request. Callers asking for the same key while it
+ * is in flight share one request; a settled result is served until its TTL
+ * runs out. Failures are dropped straight away so the next call retries.
+ */
+export const createRequestCache = (): RequestCache => {
+  const entries = new Map<string, CacheEntry>();
+
+  const prune = (now: number) => {
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) entries.delete(key);
+    });
+  };
+
+  const get = <T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> => {
+    const now = Date.now();
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > now) return cached.promise as Promise<T>;
+
+    prune(now);
+    const entry: CacheEntry = { promise: Promise.resolve(), expiresAt: Infinity };
+    entry.promise = load().then(
+      (result) => {
+        entry.expiresAt = Date.now() + ttlMs;
+        return result;
+      },
+      (error) => {
+        if (entries.get(key) === entry) entries.delete(key);
+        throw error;
+      }
+    );
+    entries.set(key, entry);
+    return entry.promise as Promise<T>;
+  };
+
+  /**
+   * Drop cached results, all of them or those whose key matches. A request
+   * still in flight is dropped too, so later callers start a fresh one.
+   */
+  const invalidate = (matches?: (key: string) => boolean) => {
+    if (!matches) {
+      entries.clear();
+      return;
+    }
+    [...entries.keys()].filter(matches).forEach((key) => entries.delete(key));
+  };
+
+  return { get, invalidate };
+};
@@ -0,0 +1,160 @@
+import { RequestPriority, RequestSchedulerStatus } from '../types';
+
+export type RequestErrorKind = 'rateLimited' | 'transient' | 'fatal';
+
+interface RequestSchedulerOptions {
+  weightPerMinute: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  classifyError: (error: unknown) => RequestErrorKind;
+}
+
+export interface RequestScheduler {
+  schedule: <T>(task: () => Promise<T>, weight: number, priority: RequestPriority) => Promise<T>;
+  charge: (weight: number) => void;
+  getStatus: () => RequestSchedulerStatus;
+  subscribe: (listener: (status: RequestSchedulerStatus) => void) => () => void;
+}
+
+interface QueuedRequest {
+  start: () => void;
+  weight: number;
+  rank: number;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * Still rate limited after every retry
+ */
+export class RateLimitError extends Error {
+  constructor(description: string) {
+    super(`Failed to fetch ${description}: rate limited by the API, try again in a moment`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs requests within a weight budget that refills evenly over a minute.
+ * Requests wait in a queue ordered by priority, first come first served
+ * within a priority. Transient failures are retried with jittered exponential
+ * backoff; a rate-limit response also pauses the whole queue for that long,
+ * since every other request would be refused too.
+ */
+export const createRequestScheduler = ({
+  weightPerMinute,
+  maxRetries,
+  baseDelayMs,
+  maxDelayMs,
+  classifyError,
+}: RequestSchedulerOptions): RequestScheduler => {
+  const queue: QueuedRequest[] = [];
+  const listeners = new Set<(status: RequestSchedulerStatus) => void>();
+  let budget = weightPerMinute;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let retrying = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const getStatus = (): RequestSchedulerStatus => ({
+    queued: queue.length,
+    retrying,
+    rateLimitedUntil: pausedUntil > Date.now() ? pausedUntil : null,
+  });
+
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach((listener) => listener(status));
+  };
+
+  const refill = (now: number) => {
+    budget = Math.min(weightPerMinute, budget + (now - refilledAt) * weightPerMinute / 60_000);
+    refilledAt = now;
+  };
+
+  // Start whatever the budget allows, then wake up when the next request fits
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const now = Date.now();
+    refill(now);
+
+    while (queue.length > 0 && now >= pausedUntil && budget >= queue[0].weight) {
+      const next = queue.shift()!;
+      budget -= next.weight;
+      next.start();
+    }
+
+    if (queue.length > 0) {
+      const refillWait = (queue[0].weight - budget) * 60_000 / weightPerMinute;
+      timer = setTimeout(pump, Math.max(pausedUntil - now, refillWait, 1));
+    }
+    notify();
+  };
+
+  const acquire = (weight: number, priority: RequestPriority) => new Promise<void>((resolve) => {
+    // A request heavier than the whole budget would otherwise never start
+    const request = { start: resolve, weight: Math.min(weight, weightPerMinute), rank: PRIORITY_RANK[priority] };
+    const index = queue.findIndex((queued) => queued.rank > request.rank);
+    if (index === -1) queue.push(request);
+    else queue.splice(index, 0, request);
+    pump();
+  });
+
+  // Half fixed, half random, so clients that failed together spread out
+  const backoff = (attempt: number): number => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * delay / 2;
+  };
+
+  const schedule = async <T>(task: () => Promise<T>, weight: number, priority: RequestPriority): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(weight, priority);
+      try {
+        return await task();
+      } catch (error) {
+        const kind = classifyError(error);
+        if (kind === 'fatal' || attempt >= maxRetries) throw error;
+
+        const delay = backoff(attempt);
+        if (kind === 'rateLimited') {
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+          budget = 0;
+        }
+        retrying++;
+        notify();
+        try {
+          await sleep(delay);
+        } finally {
+          retrying--;
+        }
+      }
+    }
+  };
+
+  /**
+   * Take weight the API charged after the fact, such as per item returned
+   */
+  const charge = (weight: number) => {
+    refill(Date.now());
+    budget -= weight;
+  };
+
+  const subscribe = (listener: (status: RequestSchedulerStatus) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { schedule, charge, getStatus, subscribe };
+};
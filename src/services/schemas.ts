@@ -0,0 +1,247 @@
+import {
+  HyperliquidPosition,
+  HyperliquidClearinghouseState,
+  HyperliquidSpotClearinghouseState,
+  SpotMetaAndAssetCtxsResponse,
+  AllMidsResponse,
+  HyperliquidMeta,
+  HyperliquidMarginTable,
+  HyperliquidAssetCtx,
+  MetaAndAssetCtxsResponse,
+  HyperliquidSpotMeta,
+  HyperliquidSpotAssetCtx,
+  OpenOrder,
+  HyperliquidFundingRecord,
+  HyperliquidPredictedFunding,
+  PredictedFundingsResponse,
+  HyperliquidL2Level,
+  HyperliquidL2Book,
+} from '../types';
+import {
+  Validator,
+  Infer,
+  string,
+  number,
+  boolean,
+  numericString,
+  oneOf,
+  nullable,
+  optional,
+  arrayOf,
+  tuple,
+  object,
+  recordOf,
+  union,
+} from './validation';
+
+// Shapes of the info endpoint responses. A schema whose raw shape is named in
+// types/ is annotated with it, so the two cannot drift apart. Candles, fills,
+// ledger updates and TWAP fills are mapped straight into app types where they
+// are read, so their raw shapes are only inferred here.
+
+const positionSchema: Validator<HyperliquidPosition> = object({
+  coin: string,
+  entryPx: numericString,
+  liquidationPx: nullable(numericString),
+  leverage: union<HyperliquidPosition['leverage']>(
+    number,
+    object({ value: number, type: string })
+  ),
+  positionValue: numericString,
+  unrealizedPnl: numericString,
+  returnOnEquity: numericString,
+  szi: numericString,
+  marginUsed: optional(numericString),
+  maxLeverage: optional(number),
+  cumFunding: optional(object({
+    allTime: numericString,
+    sinceOpen: numericString,
+    sinceChange: numericString,
+  })),
+});
+
+export const clearinghouseStateSchema: Validator<HyperliquidClearinghouseState> = object({
+  assetPositions: arrayOf(object({
+    type: string,
+    position: positionSchema,
+  })),
+  marginSummary: object({
+    accountValue: numericString,
+    totalNtlPos: numericString,
+    totalRawUsd: numericString,
+    totalMarginUsed: optional(numericString),
+  }),
+  crossMarginSummary: object({
+    accountValue: numericString,
+    totalMarginUsed: numericString,
+    totalNtlPos: numericString,
+    totalRawUsd: numericString,
+  }),
+  withdrawable: numericString,
+  crossMaintenanceMarginUsed: optional(numericString),
+  time: optional(number),
+});
+
+export const allMidsSchema: Validator<AllMidsResponse> = recordOf(numericString);
+
+const metaSchema: Validator<HyperliquidMeta> = object({
+  universe: arrayOf(object({
+    name: string,
+    szDecimals: number,
+    maxLeverage: number,
+    marginTableId: optional(number),
+    onlyIsolated: optional(boolean),
+    isDelisted: optional(boolean),
+  })),
+  marginTables: optional(arrayOf(tuple<[number, HyperliquidMarginTable]>(
+    number,
+    object({
+      description: string,
+      marginTiers: arrayOf(object({ lowerBound: numericString, maxLeverage: number })),
+    })
+  ))),
+});
+
+const assetCtxSchema: Validator<HyperliquidAssetCtx> = object({
+  funding: numericString,
+  openInterest: numericString,
+  prevDayPx: numericString,
+  dayNtlVlm: numericString,
+  premium: nullable(numericString),
+  oraclePx: numericString,
+  markPx: numericString,
+  midPx: nullable(numericString),
+  impactPxs: nullable(arrayOf(numericString)),
+});
+
+export const metaAndAssetCtxsSchema: Validator<MetaAndAssetCtxsResponse> = tuple<MetaAndAssetCtxsResponse>(
+  metaSchema,
+  arrayOf(assetCtxSchema)
+);
+
+export const spotClearinghouseStateSchema: Validator<HyperliquidSpotClearinghouseState> = object({
+  balances: arrayOf(object({
+    coin: string,
+    token: number,
+    hold: numericString,
+    total: numericString,
+    entryNtl: numericString,
+  })),
+});
+
+const spotMetaSchema: Validator<HyperliquidSpotMeta> = object({
+  tokens: arrayOf(object({
+    name: string,
+    szDecimals: number,
+    weiDecimals: number,
+    index: number,
+    isCanonical: boolean,
+  })),
+  universe: arrayOf(object({
+    name: string,
+    tokens: tuple<[number, number]>(number, number),
+    index: number,
+    isCanonical: boolean,
+  })),
+});
+
+const spotAssetCtxSchema: Validator<HyperliquidSpotAssetCtx> = object({
+  coin: string,
+  markPx: numericString,
+  midPx: nullable(numericString),
+  prevDayPx: numericString,
+  dayNtlVlm: numericString,
+});
+
+export const spotMetaAndAssetCtxsSchema: Validator<SpotMetaAndAssetCtxsResponse> = tuple<SpotMetaAndAssetCtxsResponse>(
+  spotMetaSchema,
+  arrayOf(spotAssetCtxSchema)
+);
+
+const bookLevelSchema: Validator<HyperliquidL2Level> = object({ px: numericString, sz: numericString, n: number });
+
+export const l2BookSchema: Validator<HyperliquidL2Book> = object({
+  coin: string,
+  time: number,
+  levels: tuple<HyperliquidL2Book['levels']>(
+    arrayOf(bookLevelSchema),
+    arrayOf(bookLevelSchema)
+  ),
+});
+
+export const fundingHistorySchema: Validator<HyperliquidFundingRecord[]> = arrayOf(object({
+  coin: string,
+  fundingRate: numericString,
+  premium: numericString,
+  time: number,
+}));
+
+const predictedVenueSchema: Validator<HyperliquidPredictedFunding | null> = nullable(object({
+  fundingRate: numericString,
+  nextFundingTime: number,
+  fundingIntervalHours: optional(number),
+}));
+
+export const predictedFundingsSchema: Validator<PredictedFundingsResponse> = arrayOf(
+  tuple<PredictedFundingsResponse[number]>(
+    string,
+    arrayOf(tuple<[string, HyperliquidPredictedFunding | null]>(string, predictedVenueSchema))
+  )
+);
+
+export const candleSnapshotSchema = arrayOf(object({
+  t: number,
+  o: numericString,
+  h: numericString,
+  l: numericString,
+  c: numericString,
+  v: numericString,
+}));
+
+export const openOrdersSchema: Validator<OpenOrder[]> = arrayOf(object({
+  oid: number,
+  coin: string,
+  side: oneOf('A', 'B'),
+  limitPx: numericString,
+  sz: numericString,
+  timestamp: number,
+  orderType: optional(string),
+  isTrigger: optional(boolean),
+  triggerPx: optional(numericString),
+  triggerCondition: optional(string),
+  reduceOnly: optional(boolean),
+  isPositionTpsl: optional(boolean),
+}));
+
+const fillSchema = object({
+  coin: string,
+  px: numericString,
+  sz: numericString,
+  side: oneOf('A', 'B'),
+  time: number,
+  dir: string,
+  closedPnl: numericString,
+  hash: string,
+  oid: number,
+  crossed: boolean,
+  fee: numericString,
+  feeToken: optional(string),
+  tid: number,
+  startPosition: numericString,
+});
+
+export type RawFill = Infer<typeof fillSchema>;
+
+export const userFillsSchema = arrayOf(fillSchema);
+
+// Deltas vary by type; only the type is needed to render them
+export const ledgerUpdatesSchema = arrayOf(object({
+  time: number,
+  hash: string,
+  delta: object({ type: string }),
+}));
+
+export const twapFillsSchema = arrayOf(object({
+  twapId: number,
+  fill: fillSchema,
+}));
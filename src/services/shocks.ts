@@ -0,0 +1,139 @@
+import {
+  Position,
+  CandleData,
+  CrossPortfolio,
+  PriceVector,
+  BetaEstimate,
+  CorrelatedShockResult,
+  ShockPositionResult,
+  SpotBalance,
+} from '../types';
+import { calculateNewPrice, calculatePnL, isPositionLiquidated } from './calculations';
+import { evaluatePortfolio } from './portfolio';
+import { calculateSpotValueChange } from './spot';
+import { alignReturns, calculateBeta, calculateCorrelation } from './statistics';
+
+// Crypto assets move roughly one-for-one with the majors when history is missing
+const DEFAULT_BETA = 1;
+
+// Fewer paired returns than this are too noisy to trust
+const MIN_OBSERVATIONS = 20;
+
+/**
+ * Estimate each coin's beta to the driver from candle history
+ */
+export const estimateBetas = (
+  driver: string,
+  coins: string[],
+  candlesByCoin: Record<string, CandleData[]>
+): Record<string, BetaEstimate> => {
+  const driverCandles = candlesByCoin[driver] ?? [];
+  const estimates: Record<string, BetaEstimate> = {};
+
+  coins.forEach((coin) => {
+    if (coin === driver) {
+      estimates[coin] = { coin, beta: 1, correlation: 1, observations: 0, source: 'estimated' };
+      return;
+    }
+
+    const { a: assetReturns, b: driverReturns } = alignReturns(
+      candlesByCoin[coin] ?? [],
+      driverCandles
+    );
+    const beta = assetReturns.length >= MIN_OBSERVATIONS
+      ? calculateBeta(assetReturns, driverReturns)
+      : null;
+
+    estimates[coin] = beta === null
+      ? { coin, beta: DEFAULT_BETA, correlation: null, observations: assetReturns.length, source: 'default' }
+      : {
+          coin,
+          beta,
+          correlation: calculateCorrelation(assetReturns, driverReturns),
+          observations: assetReturns.length,
+          source: 'estimated',
+        };
+  });
+
+  return estimates;
+};
+
+/**
+ * Apply manual beta overrides on top of the estimates
+ */
+export const applyBetaOverrides = (
+  estimates: Record<string, BetaEstimate>,
+  overrides: Record<string, number>
+): Record<string, BetaEstimate> => {
+  const merged = { ...estimates };
+  Object.entries(overrides).forEach(([coin, beta]) => {
+    merged[coin] = {
+      coin,
+      beta,
+      correlation: estimates[coin]?.correlation ?? null,
+      observations: estimates[coin]?.observations ?? 0,
+      source: 'override',
+    };
+  });
+  return merged;
+};
+
+/**
+ * Shock a driver asset and move every position by its beta to the driver,
+ * then revalue the cross account and each isolated position at the shocked prices.
+ * Spot holdings move with their perp coin's beta and count toward the total.
+ */
+export const simulateCorrelatedShock = (
+  positions: Position[],
+  crossPortfolio: CrossPortfolio | null,
+  driver: string,
+  driverChange: number,
+  betas: Record<string, BetaEstimate>,
+  spotBalances: SpotBalance[] = []
+): CorrelatedShockResult => {
+  const betaFor = (coin: string): number =>
+    coin === driver ? 1 : betas[coin]?.beta ?? DEFAULT_BETA;
+
+  const shockedPrices: PriceVector = {};
+  positions.forEach((pos) => {
+    // A price cannot fall below zero however large beta * move gets
+    shockedPrices[pos.coin] = Math.max(calculateNewPrice(pos.currentPrice, betaFor(pos.coin) * driverChange), 0);
+  });
+
+  const crossEvaluation = crossPortfolio && crossPortfolio.positions.length > 0
+    ? evaluatePortfolio(crossPortfolio, shockedPrices)
+    : null;
+
+  const results: ShockPositionResult[] = positions.map((pos) => {
+    const shockedPrice = shockedPrices[pos.coin];
+    const beta = betaFor(pos.coin);
+    const isLiquidated = pos.marginMode === 'cross'
+      ? crossEvaluation?.isLiquidated ?? false
+      : isPositionLiquidated(pos, shockedPrice);
+
+    return {
+      coin: pos.coin,
+      marginMode: pos.marginMode,
+      beta,
+      priceChange: beta * driverChange,
+      shockedPrice,
+      pnlChange: calculatePnL(pos, shockedPrice) - calculatePnL(pos, pos.currentPrice),
+      isLiquidated,
+    };
+  });
+
+  const spotValueChange = calculateSpotValueChange(
+    spotBalances,
+    (coin) => betaFor(coin) * driverChange
+  );
+
+  return {
+    driver,
+    driverChange,
+    positions: results,
+    spotValueChange,
+    totalPnlChange: results.reduce((sum, result) => sum + result.pnlChange, spotValueChange),
+    crossEvaluation,
+    liquidatedCoins: results.filter((result) => result.isLiquidated).map((result) => result.coin),
+  };
+};
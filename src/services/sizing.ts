@@ -0,0 +1,92 @@
+import {
+  CrossPortfolio,
+  PriceVector,
+  MarginModel,
+  SafeSizeResult,
+} from '../types';
+import {
+  calculatePortfolioEquity,
+  calculatePortfolioMaintenance,
+  resolveMaintenanceRate,
+} from './portfolio';
+
+// Passes to settle the maintenance tier against the size it produces
+const TIER_ITERATIONS = 3;
+
+/**
+ * Percent move against a side for a multiple of daily log-return volatility
+ */
+export const sigmaAdverseMove = (
+  dailyVolatility: number,
+  sigmas: number,
+  side: 'long' | 'short'
+): number => {
+  const shock = dailyVolatility * sigmas;
+  return (side === 'long' ? 1 - Math.exp(-shock) : Math.exp(shock) - 1) * 100;
+};
+
+/**
+ * Largest cross position in a coin the account can add and still stay above
+ * maintenance after an adverse move in that coin, with every other position
+ * held at its price in `prices`. The size is also capped by what the free
+ * collateral can open at the asset's max leverage.
+ */
+export const calculateMaxSafeSize = (
+  portfolio: CrossPortfolio,
+  coin: string,
+  side: 'long' | 'short',
+  price: number,
+  adverseMove: number,
+  freeCollateral: number,
+  marginModel: MarginModel | null,
+  prices: PriceVector,
+  dailyVolatility: number | null = null
+): SafeSizeResult => {
+  const direction = side === 'long' ? 1 : -1;
+  const targetPrice = Math.max(price * (1 - (direction * adverseMove) / 100), 0);
+  const scenario = { ...prices, [coin]: targetPrice };
+
+  // Existing exposure, this coin included, already moves with the scenario
+  const survivalBuffer =
+    calculatePortfolioEquity(portfolio, scenario) - calculatePortfolioMaintenance(portfolio, scenario);
+  const existingSize = portfolio.positions.find((pos) => pos.coin === coin)?.size ?? 0; // Signed
+
+  // Each unit added loses the move and needs maintenance at the target price
+  let survivalSize = 0;
+  for (let i = 0; i < TIER_ITERATIONS && survivalBuffer > 0; i++) {
+    // The tier follows the net position, which a trade against it shrinks
+    const notional = Math.abs(existingSize + direction * survivalSize) * price;
+    const rate = resolveMaintenanceRate(coin, notional, marginModel);
+    survivalSize = survivalBuffer / ((price * adverseMove) / 100 + targetPrice * rate);
+  }
+
+  const assetMaxLeverage = marginModel?.[coin]?.maxLeverage ?? null;
+  const marginSize = assetMaxLeverage !== null
+    ? (Math.max(freeCollateral, 0) * assetMaxLeverage) / price
+    : Infinity;
+
+  const limitedBy = survivalSize <= marginSize ? 'move' : 'margin';
+  const rawSize = Math.min(survivalSize, marginSize);
+  // Round down to the asset's size decimals so the answer never overshoots
+  const szDecimals = marginModel?.[coin]?.szDecimals;
+  const maxSize = szDecimals !== undefined
+    ? Math.floor(rawSize * Math.pow(10, szDecimals)) / Math.pow(10, szDecimals)
+    : rawSize;
+  const maxNotional = maxSize * price;
+
+  return {
+    coin,
+    side,
+    price,
+    targetPrice,
+    adverseMove,
+    dailyVolatility,
+    survivalBuffer,
+    maxSize,
+    maxNotional,
+    maxLeverage: freeCollateral > 0
+      ? Math.min(maxNotional / freeCollateral, assetMaxLeverage ?? Infinity)
+      : 0,
+    limitedBy,
+  };
+};
@@ -0,0 +1,103 @@
+import {
+  HyperliquidSpotClearinghouseState,
+  SpotMetaAndAssetCtxsResponse,
+  SpotBalance,
+} from '../types';
+
+const QUOTE_TOKEN = 'USDC';
+
+// Dollar tokens hold their value through any crypto stress
+const STABLECOINS = new Set(['USDC', 'USDT0', 'USDE', 'USDH', 'USDHL']);
+
+// Bridged tokens that track a perp listed under another name
+const SPOT_PERP_ALIASES: Record<string, string> = {
+  UBTC: 'BTC',
+  UETH: 'ETH',
+  USOL: 'SOL',
+  UFART: 'FARTCOIN',
+  UPUMP: 'PUMP',
+};
+
+/**
+ * Perp coin whose moves a spot token follows in stress scenarios,
+ * null for stablecoins
+ */
+export const spotShockCoin = (coin: string): string | null => {
+  if (STABLECOINS.has(coin)) return null;
+  return SPOT_PERP_ALIASES[coin] ?? coin;
+};
+
+/**
+ * USDC price of every token with a USDC pair, keyed by token name. The mid is
+ * preferred over the mark, and canonical pairs over the rest.
+ */
+export const buildSpotPrices = ([meta, ctxs]: SpotMetaAndAssetCtxsResponse): Record<string, number> => {
+  const quoteIndex = meta.tokens.find((token) => token.name === QUOTE_TOKEN)?.index ?? 0;
+  const prices: Record<string, number> = { [QUOTE_TOKEN]: 1 };
+
+  const pairs = meta.universe
+    .map((pair, i) => ({ pair, ctx: ctxs[i] }))
+    .sort((a, b) => Number(b.pair.isCanonical) - Number(a.pair.isCanonical));
+  pairs.forEach(({ pair, ctx }) => {
+    const [base, quote] = pair.tokens;
+    const name = meta.tokens.find((token) => token.index === base)?.name;
+    if (quote !== quoteIndex || !name || !ctx || prices[name] !== undefined) return;
+
+    const price = parseFloat(ctx.midPx ?? ctx.markPx);
+    if (price > 0) prices[name] = price;
+  });
+
+  return prices;
+};
+
+/**
+ * Value spot balances at USDC prices, largest holding first
+ */
+export const toSpotBalances = (
+  state: HyperliquidSpotClearinghouseState,
+  prices: Record<string, number>
+): SpotBalance[] => {
+  return state.balances
+    .map((balance): SpotBalance => {
+      const total = parseFloat(balance.total);
+      const price = prices[balance.coin] ?? (balance.coin === QUOTE_TOKEN ? 1 : null);
+      const value = price !== null ? total * price : 0;
+      const entryValue = parseFloat(balance.entryNtl) || 0;
+
+      return {
+        coin: balance.coin,
+        total,
+        hold: parseFloat(balance.hold) || 0,
+        price,
+        value,
+        entryValue,
+        // Stablecoins and unpriced tokens carry no cost basis worth comparing
+        unrealizedPnl: price !== null && entryValue > 0 ? value - entryValue : 0,
+        shockCoin: spotShockCoin(balance.coin),
+      };
+    })
+    .filter((balance) => balance.total > 0)
+    .sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Total USDC value of spot holdings
+ */
+export const calculateSpotValue = (balances: SpotBalance[]): number => {
+  return balances.reduce((sum, balance) => sum + balance.value, 0);
+};
+
+/**
+ * Change in spot value when each token moves by its perp coin's percent
+ * change; stablecoins and unpriced tokens do not move
+ */
+export const calculateSpotValueChange = (
+  balances: SpotBalance[],
+  percentChangeFor: (coin: string) => number
+): number => {
+  return balances.reduce((sum, balance) => {
+    if (!balance.shockCoin || balance.value === 0) return sum;
+    // A token can lose at most its whole value
+    return sum + balance.value * Math.max(percentChangeFor(balance.shockCoin), -100) / 100;
+  }, 0);
+};
@@ -0,0 +1,200 @@
+import { CandleData, HistogramBin } from '../types';
+
+/**
+ * Calculate simple close-to-close returns from candles (sorted by time)
+ */
+export const calculateReturns = (candles: CandleData[]): number[] => {
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  const returns: number[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1].close;
+    if (previous > 0) {
+      returns.push(sorted[i].close / previous - 1);
+    }
+  }
+
+  return returns;
+};
+
+/**
+ * Calculate returns of two candle series over the timestamps they share
+ */
+export const alignReturns = (
+  candlesA: CandleData[],
+  candlesB: CandleData[]
+): { a: number[]; b: number[] } => {
+  const closesB = new Map(candlesB.map((candle) => [candle.time, candle.close]));
+  const shared = [...candlesA]
+    .filter((candle) => closesB.has(candle.time))
+    .sort((x, y) => x.time - y.time);
+
+  const a: number[] = [];
+  const b: number[] = [];
+  for (let i = 1; i < shared.length; i++) {
+    const prevA = shared[i - 1].close;
+    const prevB = closesB.get(shared[i - 1].time)!;
+    if (prevA > 0 && prevB > 0) {
+      a.push(shared[i].close / prevA - 1);
+      b.push(closesB.get(shared[i].time)! / prevB - 1);
+    }
+  }
+
+  return { a, b };
+};
+
+/**
+ * Arithmetic mean
+ */
+export const mean = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Sample standard deviation
+ */
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance =
+    values.reduce((sum, value) => sum + (value - avg) * (value - avg), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * Sample covariance of two equally long series
+ */
+export const covariance = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (n - 1);
+};
+
+/**
+ * Beta of an asset's returns to a driver's returns, or null without enough data
+ */
+export const calculateBeta = (assetReturns: number[], driverReturns: number[]): number | null => {
+  const driverVolatility = standardDeviation(driverReturns);
+  if (assetReturns.length < 2 || driverVolatility === 0) return null;
+  return covariance(assetReturns, driverReturns) / (driverVolatility * driverVolatility);
+};
+
+/**
+ * Pearson correlation of two series, or null without enough data
+ */
+export const calculateCorrelation = (a: number[], b: number[]): number | null => {
+  const volatilityA = standardDeviation(a);
+  const volatilityB = standardDeviation(b);
+  if (volatilityA === 0 || volatilityB === 0) return null;
+  return covariance(a, b) / (volatilityA * volatilityB);
+};
+
+/**
+ * Calculate log returns of closes from candles (sorted by time)
+ */
+export const calculateLogReturns = (candles: CandleData[]): number[] => {
+  return calculateReturns(candles)
+    .filter((value) => value > -1)
+    .map((value) => Math.log(1 + value));
+};
+
+/**
+ * Volatility of log returns per candle interval
+ */
+export const calculateVolatility = (candles: CandleData[]): number => {
+  return standardDeviation(calculateLogReturns(candles));
+};
+
+/**
+ * Percentile of an ascending-sorted series, p in [0, 100], linearly interpolated
+ */
+export const percentile = (sortedValues: number[], p: number): number => {
+  if (sortedValues.length === 0) return 0;
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight;
+};
+
+/**
+ * Bucket values into equally wide bins
+ */
+export const buildHistogram = (
+  values: number[],
+  binCount: number = 30
+): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    const index = Math.min(Math.floor((value - min) / width), binCount - 1);
+    bins[index].count++;
+  });
+
+  return bins;
+};
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32), so a path can be re-run exactly
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draw a standard normal sample (Box-Muller), from a seeded generator if given
+ */
+export const randomNormal = (random: () => number = Math.random): number => {
+  let u = 0;
+  while (u === 0) u = random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Lower-triangular Cholesky factor of a symmetric positive semi-definite matrix.
+ * Tiny negative pivots from sampling noise are clamped to zero.
+ */
+export const choleskyDecomposition = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        lower[i][j] = Math.sqrt(Math.max(sum, 0));
+      } else {
+        lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+
+  return lower;
+};
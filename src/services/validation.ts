@@ -0,0 +1,166 @@
+/**
+ * An info response that does not have the shape we rely on. `path` points at
+ * the offending field, e.g. `assetPositions[0].position.szi`.
+ */
+export class ApiValidationError extends Error {
+  readonly description: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(description: string, path: string, expected: string, received: unknown) {
+    super(`Unexpected ${description} response: ${path || 'response'} should be ${expected}, got ${describe(received)}`);
+    this.name = 'ApiValidationError';
+    this.description = description;
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+/**
+ * Checks a value at `path` and returns it typed, or throws a FieldError
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+// Thrown by validators and turned into an ApiValidationError by `validate`,
+// which knows which request the value came from
+class FieldError extends Error {
+  constructor(readonly path: string, readonly expected: string, readonly received: unknown) {
+    super(`${path} should be ${expected}`);
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 32 ? `${value.slice(0, 32)}…` : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new FieldError(path, 'a string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new FieldError(path, 'a number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new FieldError(path, 'a boolean', value);
+  return value;
+};
+
+/**
+ * A decimal string such as "43250.5"; the API sends prices and sizes this way
+ */
+export const numericString: Validator<string> = (value, path) => {
+  if (typeof value !== 'string' || value.trim() === '' || !Number.isFinite(Number(value))) {
+    throw new FieldError(path, 'a numeric string', value);
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(...options: T[]): Validator<T> => (value, path) => {
+  if (!options.includes(value as T)) {
+    throw new FieldError(path, `one of ${options.map((option) => `"${option}"`).join(', ')}`, value);
+  }
+  return value as T;
+};
+
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null ? null : validator(value, path);
+
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined ? undefined : validator(value, path);
+
+export const arrayOf = <T>(validator: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new FieldError(path, 'an array', value);
+  return value.map((item, i) => validator(item, `${path}[${i}]`));
+};
+
+export const tuple = <T extends unknown[]>(
+  ...validators: { [K in keyof T]: Validator<T[K]> }
+): Validator<T> => (value, path) => {
+  if (!Array.isArray(value) || value.length < validators.length) {
+    throw new FieldError(path, `an array of ${validators.length}`, value);
+  }
+  return validators.map((validator, i) => validator(value[i], `${path}[${i}]`)) as T;
+};
+
+/**
+ * Object with at least the given fields. Fields we do not check are kept, so
+ * a response can grow without breaking us.
+ */
+export const object = <T extends Record<string, unknown>>(
+  shape: { [K in keyof T]: Validator<T[K]> }
+): Validator<T> => (value, path) => {
+  if (!isRecord(value)) throw new FieldError(path, 'an object', value);
+  const result: Record<string, unknown> = { ...value };
+  Object.keys(shape).forEach((key) => {
+    const checked = shape[key](value[key], path ? `${path}.${key}` : key);
+    if (checked !== undefined) result[key] = checked;
+  });
+  return result as T;
+};
+
+export const recordOf = <T>(validator: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  if (!isRecord(value)) throw new FieldError(path, 'an object', value);
+  const result: Record<string, T> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    result[key] = validator(item, path ? `${path}.${key}` : key);
+  });
+  return result;
+};
+
+/**
+ * First validator that accepts the value; the error names every alternative
+ */
+export const union = <T>(...validators: Validator<T>[]): Validator<T> => (value, path) => {
+  const expected: string[] = [];
+  for (const validator of validators) {
+    try {
+      return validator(value, path);
+    } catch (error) {
+      if (!(error instanceof FieldError)) throw error;
+      // The deepest failure says the most about what was almost right
+      if (error.path !== path) throw error;
+      expected.push(error.expected);
+    }
+  }
+  throw new FieldError(path, expected.join(' or '), value);
+};
+
+/**
+ * Check an info response against its schema
+ */
+export const validate = <T>(data: unknown, validator: Validator<T>, description: string): T => {
+  try {
+    return validator(data, '');
+  } catch (error) {
+    if (error instanceof FieldError) {
+      throw new ApiValidationError(description, error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+};
+
+const loggedCoercions = new Set<string>();
+
+/**
+ * Report a value filled in for data the API did not give us. Each message is
+ * logged once per session so polling does not flood the console.
+ */
+export const logCoercion = (message: string): void => {
+  if (loggedCoercions.has(message)) return;
+  loggedCoercions.add(message);
+  console.warn(`[hyperliquid] ${message}`);
+};
@@ -0,0 +1,183 @@
+import {
+  Position,
+  CandleData,
+  VarConfidence,
+  VarContribution,
+  VarEstimate,
+  PortfolioRiskReport,
+  SimulationHorizon,
+} from '../types';
+import { covariance, percentile, mean } from './statistics';
+
+// Standard normal quantiles for the supported confidence levels
+const Z_SCORES: Record<VarConfidence, number> = {
+  0.95: 1.6448536,
+  0.99: 2.3263479,
+};
+
+const CONFIDENCE_LEVELS: VarConfidence[] = [0.95, 0.99];
+
+// Horizons reported, in hours of candle history
+const VAR_HORIZONS: { horizon: SimulationHorizon; hours: number }[] = [
+  { horizon: '1D', hours: 24 },
+  { horizon: '1W', hours: 168 },
+];
+
+// Too few scenarios make the tail estimates meaningless
+const MIN_SCENARIOS = 30;
+
+/**
+ * Standard normal density
+ */
+const normalDensity = (z: number): number => {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+};
+
+/**
+ * Signed USD exposure of a position at its current price
+ */
+const calculateExposure = (position: Position): number => {
+  const direction = position.side === 'long' ? 1 : -1;
+  return direction * position.size * position.currentPrice;
+};
+
+/**
+ * Closes of every coin at the timestamps all coins share, oldest first
+ */
+const alignCloses = (
+  coins: string[],
+  candlesByCoin: Record<string, CandleData[]>
+): number[][] => {
+  const closeMaps = coins.map(
+    (coin) => new Map(candlesByCoin[coin].map((candle) => [candle.time, candle.close]))
+  );
+  const sharedTimes = [...closeMaps[0].keys()]
+    .filter((time) => closeMaps.every((closes) => (closes.get(time) ?? 0) > 0))
+    .sort((a, b) => a - b);
+
+  return sharedTimes.map((time) => closeMaps.map((closes) => closes.get(time)!));
+};
+
+/**
+ * Historical simulation: revalue today's exposures under every overlapping
+ * past move of the horizon length. Contributions are each position's average
+ * loss in the tail scenarios, with VaR allocated pro rata to them.
+ */
+const historicalEstimate = (
+  coins: string[],
+  exposures: number[],
+  closes: number[][],
+  horizonSteps: number,
+  confidence: VarConfidence,
+  horizon: SimulationHorizon
+): VarEstimate | null => {
+  const scenarios: number[][] = [];
+  for (let t = 0; t + horizonSteps < closes.length; t++) {
+    scenarios.push(
+      exposures.map((exposure, i) => exposure * (closes[t + horizonSteps][i] / closes[t][i] - 1))
+    );
+  }
+  if (scenarios.length < MIN_SCENARIOS) return null;
+
+  const totals = scenarios.map((pnl) => pnl.reduce((sum, value) => sum + value, 0));
+  const sortedTotals = [...totals].sort((a, b) => a - b);
+  const valueAtRisk = Math.max(-percentile(sortedTotals, (1 - confidence) * 100), 0);
+
+  const tail = scenarios.filter((_, index) => totals[index] <= -valueAtRisk);
+  const expectedShortfall = tail.length > 0
+    ? Math.max(-mean(tail.map((pnl) => pnl.reduce((sum, value) => sum + value, 0))), 0)
+    : valueAtRisk;
+
+  const contributions: VarContribution[] = coins.map((coin, i) => {
+    const shortfall = tail.length > 0 ? -mean(tail.map((pnl) => pnl[i])) : 0;
+    return {
+      coin,
+      valueAtRisk: expectedShortfall > 0 ? shortfall * (valueAtRisk / expectedShortfall) : 0,
+      expectedShortfall: shortfall,
+    };
+  });
+
+  return { method: 'historical', confidence, horizon, valueAtRisk, expectedShortfall, contributions };
+};
+
+/**
+ * Variance-covariance (normal, zero mean) estimate scaled by the square root of time.
+ * Contributions are Euler allocations, so they sum to the portfolio figure.
+ */
+const parametricEstimate = (
+  coins: string[],
+  exposures: number[],
+  hourlyCovariance: number[][],
+  horizonHours: number,
+  confidence: VarConfidence,
+  horizon: SimulationHorizon
+): VarEstimate => {
+  const marginal = hourlyCovariance.map((row) =>
+    row.reduce((sum, value, j) => sum + value * exposures[j], 0) * horizonHours
+  );
+  const variance = exposures.reduce((sum, exposure, i) => sum + exposure * marginal[i], 0);
+  const sigma = Math.sqrt(Math.max(variance, 0));
+
+  const z = Z_SCORES[confidence];
+  const shortfallFactor = normalDensity(z) / (1 - confidence);
+
+  const contributions: VarContribution[] = coins.map((coin, i) => {
+    const share = sigma > 0 ? (exposures[i] * marginal[i]) / sigma : 0;
+    return {
+      coin,
+      valueAtRisk: share * z,
+      expectedShortfall: share * shortfallFactor,
+    };
+  });
+
+  return {
+    method: 'parametric',
+    confidence,
+    horizon,
+    valueAtRisk: sigma * z,
+    expectedShortfall: sigma * shortfallFactor,
+    contributions,
+  };
+};
+
+/**
+ * Historical and parametric VaR / Expected Shortfall for the open positions,
+ * from hourly candle history of every coin
+ */
+export const calculatePortfolioRisk = (
+  positions: Position[],
+  candlesByCoin: Record<string, CandleData[]>
+): PortfolioRiskReport | null => {
+  const included = positions.filter((pos) => (candlesByCoin[pos.coin]?.length ?? 0) > 1);
+  const missingHistory = positions
+    .filter((pos) => !included.includes(pos))
+    .map((pos) => pos.coin);
+  if (included.length === 0) return null;
+
+  const coins = included.map((pos) => pos.coin);
+  const exposures = included.map(calculateExposure);
+  const closes = alignCloses(coins, candlesByCoin);
+
+  const hourlyReturns = closes.slice(1).map((row, t) =>
+    row.map((close, i) => close / closes[t][i] - 1)
+  );
+  if (hourlyReturns.length < MIN_SCENARIOS) return null;
+
+  const series = coins.map((_, i) => hourlyReturns.map((row) => row[i]));
+  const hourlyCovariance = series.map((a) => series.map((b) => covariance(a, b)));
+
+  const estimates: VarEstimate[] = [];
+  VAR_HORIZONS.forEach(({ horizon, hours }) => {
+    CONFIDENCE_LEVELS.forEach((confidence) => {
+      const historical = historicalEstimate(coins, exposures, closes, hours, confidence, horizon);
+      if (historical) estimates.push(historical);
+      estimates.push(parametricEstimate(coins, exposures, hourlyCovariance, hours, confidence, horizon));
+    });
+  });
+
+  return {
+    estimates,
+    observations: hourlyReturns.length,
+    missingHistory,
+  };
+};
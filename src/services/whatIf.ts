@@ -0,0 +1,124 @@
+import {
+  Position,
+  CrossPortfolio,
+  PriceVector,
+  PositionEdit,
+  PositionEditResult,
+  MarginModel,
+} from '../types';
+import { calculateDistanceToLiquidation } from './calculations';
+import {
+  calculateCrossLiquidationPrice,
+  calculatePortfolioEquity,
+  resolveMaintenanceRate,
+  reportedMaintenanceRate,
+} from './portfolio';
+
+export const NO_EDIT: Omit<PositionEdit, 'executionPrice'> = {
+  sizeChange: 0,
+  marginChange: 0,
+  leverage: null,
+};
+
+/**
+ * Apply a hypothetical edit to a position and recompute entry, margin and
+ * liquidation. The input position and portfolio are never modified.
+ *
+ * Size added averages into the entry price; size removed realizes PnL at the
+ * execution price. Filling away from the current price moves equity at once.
+ * Cross positions are revalued with the whole account, where leverage only
+ * changes the initial margin; isolated positions are a one-position account
+ * funded by their own bucket.
+ */
+export const applyPositionEdit = (
+  position: Position,
+  edit: PositionEdit,
+  crossPortfolio: CrossPortfolio | null,
+  prices: PriceVector,
+  marginModel: MarginModel | null
+): PositionEditResult => {
+  const direction = position.side === 'long' ? 1 : -1;
+  const currentPrice = position.currentPrice;
+  const executionPrice = edit.executionPrice > 0 ? edit.executionPrice : currentPrice;
+
+  // A reduction can at most close the position
+  const sizeChange = Math.max(edit.sizeChange, -position.size);
+  const newSize = position.size + sizeChange;
+  const added = Math.max(sizeChange, 0);
+  const reduced = Math.max(-sizeChange, 0);
+
+  const entryPrice = added > 0
+    ? (position.size * position.entryPrice + added * executionPrice) / newSize
+    : position.entryPrice;
+  const realizedPnl = reduced * (executionPrice - position.entryPrice) * direction;
+  const fillEdge = sizeChange * (currentPrice - executionPrice) * direction;
+
+  const leverage = edit.leverage && edit.leverage > 0 ? edit.leverage : position.leverage;
+  const positionValue = newSize * currentPrice;
+  // A cross position keeps the account's rate for the coin; an isolated one
+  // takes the margin tier of its edited notional
+  const crossRate = crossPortfolio?.positions.find((pos) => pos.coin === position.coin)?.maintenanceRate;
+  const maintenanceRate = position.marginMode === 'cross' && crossRate !== undefined
+    ? crossRate
+    : resolveMaintenanceRate(position.coin, positionValue, marginModel, reportedMaintenanceRate(position));
+
+  let margin: number;
+  let liquidationPrice: number | null = null;
+  let editedPortfolio = crossPortfolio;
+
+  if (position.marginMode === 'isolated') {
+    // Reductions release margin pro rata; additions post new margin at the leverage
+    const baseMargin = edit.leverage
+      ? positionValue / leverage
+      : position.margin * (position.size > 0 ? Math.min(newSize / position.size, 1) : 0) + (added * executionPrice) / leverage;
+    margin = Math.max(baseMargin + edit.marginChange + fillEdge, 0);
+
+    if (newSize > 0) {
+      const bucket: CrossPortfolio = {
+        accountValue: margin,
+        positions: [{ coin: position.coin, size: direction * newSize, markPrice: currentPrice, maintenanceRate }],
+      };
+      liquidationPrice = calculateCrossLiquidationPrice(bucket, position.coin, {});
+    }
+  } else {
+    margin = positionValue / leverage;
+
+    if (crossPortfolio) {
+      const valuation = { ...prices, [position.coin]: currentPrice };
+      // Rebase every position to current prices so the new size carries no stale PnL
+      const rebased = crossPortfolio.positions
+        .filter((pos) => pos.coin !== position.coin)
+        .map((pos) => ({ ...pos, markPrice: valuation[pos.coin] ?? pos.markPrice }));
+      editedPortfolio = {
+        accountValue: calculatePortfolioEquity(crossPortfolio, valuation) + fillEdge,
+        positions: newSize > 0
+          ? [...rebased, { coin: position.coin, size: direction * newSize, markPrice: currentPrice, maintenanceRate }]
+          : rebased,
+      };
+      if (newSize > 0) {
+        liquidationPrice = calculateCrossLiquidationPrice(editedPortfolio, position.coin, valuation);
+      }
+    }
+  }
+
+  const edited: Position = {
+    ...position,
+    size: newSize,
+    entryPrice,
+    leverage,
+    liquidationPrice,
+    unrealizedPnl: newSize * (currentPrice - entryPrice) * direction,
+    positionValue,
+    margin,
+    maintenanceMargin: positionValue * maintenanceRate,
+    derivedLiquidationPrice: null,
+  };
+
+  return {
+    position: edited,
+    realizedPnl,
+    distanceToLiquidation: calculateDistanceToLiquidation(edited),
+    isClosed: newSize === 0,
+    crossPortfolio: editedPortfolio,
+  };
+};
@@ -40,6 +40,7 @@ export interface HyperliquidClearinghouseState {
     totalRawUsd: string;
   };
   withdrawable: string;
+  crossMaintenanceMarginUsed?: string;
   time?: number;
 }
 
@@ -47,6 +48,165 @@ export interface AllMidsResponse {
   [key: string]: string; // e.g., { "BTC": "43250.5", "ETH": "2234.8" }
 }
 
+// Asset entry of the perp universe from the `meta` info request
+export interface HyperliquidAssetMeta {
+  name: string;
+  szDecimals: number;
+  maxLeverage: number;
+  marginTableId?: number;
+  onlyIsolated?: boolean;
+  isDelisted?: boolean;
+}
+
+export interface HyperliquidMarginTier {
+  lowerBound: string; // Notional (USD) at which this tier starts
+  maxLeverage: number;
+}
+
+export interface HyperliquidMarginTable {
+  description: string;
+  marginTiers: HyperliquidMarginTier[];
+}
+
+export interface HyperliquidMeta {
+  universe: HyperliquidAssetMeta[];
+  marginTables?: [number, HyperliquidMarginTable][];
+}
+
+// Per-asset market context, same order as meta.universe
+export interface HyperliquidAssetCtx {
+  funding: string;
+  openInterest: string;
+  prevDayPx: string;
+  dayNtlVlm: string;
+  premium: string | null;
+  oraclePx: string;
+  markPx: string;
+  midPx: string | null;
+  impactPxs: string[] | null;
+}
+
+export type MetaAndAssetCtxsResponse = [HyperliquidMeta, HyperliquidAssetCtx[]];
+
+// Settled funding from the `fundingHistory` info request
+export interface HyperliquidFundingRecord {
+  coin: string;
+  fundingRate: string;
+  premium: string;
+  time: number;
+}
+
+// One venue's next funding from the `predictedFundings` info request
+export interface HyperliquidPredictedFunding {
+  fundingRate: string;
+  nextFundingTime: number;
+  fundingIntervalHours?: number;
+}
+
+// [coin, [venue, prediction | null][]][]
+export type PredictedFundingsResponse = [string, [string, HyperliquidPredictedFunding | null][]][];
+
+export interface HyperliquidL2Level {
+  px: string;
+  sz: string;
+  n: number; // Number of orders at the level
+}
+
+// Order book from the `l2Book` info request; levels[0] are bids, levels[1] asks
+export interface HyperliquidL2Book {
+  coin: string;
+  time: number;
+  levels: [HyperliquidL2Level[], HyperliquidL2Level[]];
+}
+
+// ==========================================
+// API Environment Types
+// ==========================================
+
+export type HyperliquidEnvironment = 'mainnet' | 'testnet' | 'custom';
+
+export interface EnvironmentConfig {
+  environment: HyperliquidEnvironment;
+  apiUrl: string; // Base URL; info requests go to `${apiUrl}/info`
+  wsUrl: string;
+}
+
+// Order in which queued info requests are sent
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+// Snapshot of the request queue, for showing throttling in the UI
+export interface RequestSchedulerStatus {
+  queued: number;
+  retrying: number; // Requests waiting out a backoff before another attempt
+  rateLimitedUntil: number | null; // While the API refuses us, when we try again
+}
+
+// Info endpoint requests of one environment
+export interface HyperliquidClient {
+  config: EnvironmentConfig;
+  invalidateCache: () => void;
+  getRequestStatus: () => RequestSchedulerStatus;
+  subscribeRequestStatus: (listener: (status: RequestSchedulerStatus) => void) => () => void;
+  fetchUserPositions: (address: string) => Promise<HyperliquidClearinghouseState>;
+  fetchSpotClearinghouseState: (address: string) => Promise<HyperliquidSpotClearinghouseState>;
+  fetchSpotMetaAndAssetCtxs: () => Promise<SpotMetaAndAssetCtxsResponse>;
+  fetchAllPrices: () => Promise<AllMidsResponse>;
+  fetchMetaAndAssetCtxs: () => Promise<MetaAndAssetCtxsResponse>;
+  fetchL2Book: (coin: string) => Promise<L2Book>;
+  fetchFundingHistory: (coin: string, lookbackHours?: number) => Promise<FundingRecord[]>;
+  fetchPredictedFundings: () => Promise<Record<string, PredictedFunding[]>>;
+  fetchCandleData: (coin: string, interval?: string, lookbackHours?: number) => Promise<CandleData[]>;
+  fetchOpenOrders: (address: string) => Promise<OpenOrder[]>;
+  fetchUserFills: (address: string) => Promise<UserFill[]>;
+  fetchUserLedgerUpdates: (address: string, startTime?: number, endTime?: number) => Promise<LedgerUpdate[]>;
+  fetchTwapFills: (address: string) => Promise<TwapSliceFill[]>;
+}
+
+// Token balance from the `spotClearinghouseState` info request
+export interface HyperliquidSpotBalance {
+  coin: string;
+  token: number; // Index into spotMeta.tokens
+  hold: string; // Locked in open spot orders
+  total: string;
+  entryNtl: string; // Cost basis in USDC
+}
+
+export interface HyperliquidSpotClearinghouseState {
+  balances: HyperliquidSpotBalance[];
+}
+
+export interface HyperliquidSpotToken {
+  name: string;
+  szDecimals: number;
+  weiDecimals: number;
+  index: number;
+  isCanonical: boolean;
+}
+
+// Spot pair; tokens are [base, quote] indices into spotMeta.tokens
+export interface HyperliquidSpotPair {
+  name: string;
+  tokens: [number, number];
+  index: number;
+  isCanonical: boolean;
+}
+
+export interface HyperliquidSpotMeta {
+  tokens: HyperliquidSpotToken[];
+  universe: HyperliquidSpotPair[];
+}
+
+// Per-pair market context, same order as spotMeta.universe
+export interface HyperliquidSpotAssetCtx {
+  coin: string;
+  markPx: string;
+  midPx: string | null;
+  prevDayPx: string;
+  dayNtlVlm: string;
+}
+
+export type SpotMetaAndAssetCtxsResponse = [HyperliquidSpotMeta, HyperliquidSpotAssetCtx[]];
+
 // Candle Data Type
 export interface CandleData {
   time: number;
@@ -58,6 +218,8 @@ export interface CandleData {
 }
 
 // Internal App Types
+export type MarginMode = 'cross' | 'isolated';
+
 export interface Position {
   coin: string;
   side: 'long' | 'short';
@@ -65,10 +227,15 @@ export interface Position {
   entryPrice: number;
   currentPrice: number;
   leverage: number;
+  marginMode: MarginMode;
   liquidationPrice: number | null;
   unrealizedPnl: number;
   positionValue: number;
-  margin: number;
+  margin: number; // Isolated: equity of the position's own bucket at the current price. Cross: initial margin share
+  maintenanceMargin: number;
+  derivedLiquidationPrice: number | null; // Liquidation price derived from the margin model
+  cumFundingSinceOpen: number; // Funding paid since the position was opened (negative = received)
+  isHypothetical: boolean; // Planned trade added by the user, not on the exchange
 }
 
 export interface SimulationState {
@@ -77,6 +244,49 @@ export interface SimulationState {
   priceChange: number;
   isLiquidated: boolean;
   simulatedPnl: number | null;
+  liquidationPrice: number | null;
+  scenarioPrices?: PriceVector; // Other coins' prices when a scenario moves the whole book
+  pathLiquidation?: PathLiquidation | null; // First point where the simulated path liquidates
+  liquidationProcess?: LiquidationProcessResult | null; // Partial closes and backstop along the path
+}
+
+// Where a price path first passes through the liquidation price
+export interface PathLiquidation {
+  step: number; // Index of the first path point at or beyond the level
+  time: number;
+  price: number;
+}
+
+export type LiquidationStepKind = 'partial' | 'full' | 'backstop';
+
+// One action of the liquidation engine along a simulated path
+export interface LiquidationStep {
+  kind: LiquidationStepKind;
+  time: number;
+  price: number; // Mark price on the path when the engine acted
+  fillPrice: number; // Average fill after book slippage; the mark for a backstop
+  sizeClosed: number;
+  remainingSize: number;
+  remainingEquity: number; // Isolated margin left, or the cross account's equity
+  realizedPnl: number; // Versus entry; a backstop also forfeits the remaining equity
+}
+
+export interface LiquidationProcessResult {
+  steps: LiquidationStep[];
+  finalSize: number;
+  finalEquity: number;
+  realizedPnl: number; // Sum over every step
+  isBackstopped: boolean;
+  endTime: number | null; // When the position was gone, null if part of it survives
+}
+
+// What it takes to keep a position above maintenance at a target price
+export interface MarginTopUpResult {
+  targetPrice: number;
+  equityAtTarget: number; // Account equity (cross) or bucket equity (isolated)
+  maintenanceAtTarget: number;
+  deposit: number; // Minimum USDC to add; 0 when the position already survives
+  sizeReduction: number | null; // Size to cut now; null when cutting alone cannot save it
 }
 
 export interface PriceData {
@@ -84,6 +294,500 @@ export interface PriceData {
   time: number;
 }
 
+export type PathModelType = 'gbm' | 'jumpDiffusion' | 'garch' | 'bootstrap';
+
+// Path model parameters calibrated from candle history, all per hour
+export interface PathModelCalibration {
+  volatility: number; // Log-return standard deviation
+  diffusionVolatility: number; // Volatility with jumps taken out
+  jumpIntensity: number; // Expected jumps per hour
+  jumpMean: number; // Mean log-return of a jump
+  jumpVolatility: number;
+  garch: { omega: number; alpha: number; beta: number }; // Variance recursion
+  returns: number[]; // Historical log returns for bootstrap resampling
+}
+
+export interface PathModelConfig {
+  type: PathModelType;
+  seed: number;
+  calibration: PathModelCalibration | null; // Null falls back to generic parameters
+}
+
+// ==========================================
+// Spot Types
+// ==========================================
+
+// Spot token holding valued at its USDC price
+export interface SpotBalance {
+  coin: string;
+  total: number;
+  hold: number; // Locked in open spot orders
+  price: number | null; // USDC per token, null without a USDC market
+  value: number; // Zero when unpriced
+  entryValue: number;
+  unrealizedPnl: number;
+  shockCoin: string | null; // Perp coin the token follows in stress scenarios, null for stablecoins
+}
+
+// ==========================================
+// Margin Model Types
+// ==========================================
+
+export interface MarginTier {
+  lowerBound: number; // Notional (USD) at which this tier starts
+  maxLeverage: number;
+  maintenanceRate: number; // Maintenance margin as a fraction of notional
+  maintenanceDeduction: number; // Keeps maintenance margin continuous across tiers
+}
+
+export interface AssetMarginInfo {
+  coin: string;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated: boolean;
+  tiers: MarginTier[]; // Sorted by lowerBound ascending
+  markPrice: number | null;
+}
+
+// Margin info keyed by coin
+export type MarginModel = Record<string, AssetMarginInfo>;
+
+export interface MarginRequirement {
+  notional: number;
+  leverage: number; // Leverage actually applied, capped at the tier maximum
+  initialMargin: number;
+  maintenanceMargin: number;
+  tier: MarginTier;
+}
+
+// ==========================================
+// Portfolio Risk Types
+// ==========================================
+
+// Price per coin used to evaluate the account, e.g. { BTC: 43250.5 }
+export type PriceVector = Record<string, number>;
+
+// A cross-margin position as seen by the portfolio engine
+export interface PortfolioPosition {
+  coin: string;
+  size: number; // Signed size (negative for short)
+  markPrice: number; // Mark price at the time of the account snapshot
+  maintenanceRate: number; // Maintenance margin as a fraction of notional
+}
+
+// Cross-margin account snapshot the engine revalues at arbitrary prices
+export interface CrossPortfolio {
+  accountValue: number;
+  positions: PortfolioPosition[];
+}
+
+// Result of revaluing the cross account at a price vector
+export interface PortfolioEvaluation {
+  equity: number;
+  maintenanceMargin: number;
+  marginRatio: number; // Maintenance margin / equity, liquidated at >= 1
+  isLiquidated: boolean;
+  liquidationPrices: Record<string, number | null>;
+}
+
+// ==========================================
+// Correlated Shock Types
+// ==========================================
+
+export interface BetaEstimate {
+  coin: string;
+  beta: number;
+  correlation: number | null;
+  observations: number; // Number of paired returns the estimate is based on
+  source: 'estimated' | 'override' | 'default';
+}
+
+export interface ShockPositionResult {
+  coin: string;
+  marginMode: MarginMode;
+  beta: number;
+  priceChange: number; // Percent
+  shockedPrice: number;
+  pnlChange: number;
+  isLiquidated: boolean;
+}
+
+export interface CorrelatedShockResult {
+  driver: string;
+  driverChange: number; // Percent
+  positions: ShockPositionResult[];
+  spotValueChange: number; // Spot holdings revalued with their perp coin's move
+  totalPnlChange: number; // Perp PnL plus the spot value change
+  crossEvaluation: PortfolioEvaluation | null;
+  liquidatedCoins: string[];
+}
+
+// ==========================================
+// Monte Carlo Types
+// ==========================================
+
+export type SimulationHorizon = '1H' | '1D' | '1W';
+
+export type MonteCarloScope = 'position' | 'portfolio';
+
+export interface MonteCarloConfig {
+  scope: MonteCarloScope;
+  horizon: SimulationHorizon;
+  pathCount: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Percentile band of all paths at one step of the horizon
+export interface FanChartPoint {
+  hour: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  config: MonteCarloConfig;
+  liquidationProbability: number; // 0-1, share of paths with any liquidation
+  expectedPnl: number;
+  pnlPercentiles: Record<'p1' | 'p5' | 'p25' | 'p50' | 'p75' | 'p95' | 'p99', number>;
+  histogram: HistogramBin[];
+  fan: FanChartPoint[];
+  fanUnit: 'price' | 'pnl'; // Single positions fan out in price, portfolios in PnL
+  hourlyVolatility: Record<string, number>;
+  missingHistory: string[]; // Coins simulated with a fallback volatility
+}
+
+// ==========================================
+// Value-at-Risk Types
+// ==========================================
+
+export type VarMethod = 'historical' | 'parametric';
+
+export type VarConfidence = 0.95 | 0.99;
+
+export interface VarContribution {
+  coin: string;
+  valueAtRisk: number;
+  expectedShortfall: number;
+}
+
+// Losses are reported as positive USD amounts
+export interface VarEstimate {
+  method: VarMethod;
+  confidence: VarConfidence;
+  horizon: SimulationHorizon;
+  valueAtRisk: number;
+  expectedShortfall: number;
+  contributions: VarContribution[];
+}
+
+export interface PortfolioRiskReport {
+  estimates: VarEstimate[];
+  observations: number; // Hourly return observations shared by all coins
+  missingHistory: string[]; // Coins left out for lack of candle history
+}
+
+// ==========================================
+// Historical Replay Types
+// ==========================================
+
+// A historical candle rescaled so its path starts at the position's current price
+export interface ReplayCandle extends CandleData {
+  sourceTime: number; // Time of the original candle
+  pnl: number; // Position PnL at the candle close, frozen once liquidated
+  isLiquidationCandle: boolean;
+}
+
+export interface ReplayResult {
+  coin: string;
+  side: 'long' | 'short';
+  label: string;
+  windowStart: number;
+  windowEnd: number;
+  candles: ReplayCandle[];
+  liquidationIndex: number | null; // First candle whose high/low crosses liquidation
+  worstPnl: number;
+  finalPnl: number;
+  orderPath: OrderPathResult | null; // Open orders worked along the replay, stepped per candle
+}
+
+// ==========================================
+// Funding Types
+// ==========================================
+
+// Settled funding from the `fundingHistory` info request (hourly rate)
+export interface FundingRecord {
+  coin: string;
+  fundingRate: number;
+  premium: number;
+  time: number;
+}
+
+// Next funding rate from the `predictedFundings` info request, per venue
+export interface PredictedFunding {
+  coin: string;
+  venue: string; // 'HlPerp' is Hyperliquid itself
+  fundingRate: number; // Rate per funding interval
+  intervalHours: number;
+  nextFundingTime: number;
+}
+
+export type FundingRateSource = 'predicted' | 'historical' | 'spike';
+
+export interface FundingHoldConfig {
+  holdingHours: number;
+  source: FundingRateSource;
+  spikeAnnualized: number; // Percent per year, only used by the spike source
+}
+
+export interface FundingPositionResult {
+  coin: string;
+  marginMode: MarginMode;
+  hourlyRate: number;
+  annualizedRate: number; // Percent per year
+  fundingPnl: number; // Funding received over the hold (negative = paid)
+  pnlWithFunding: number;
+  liquidationPrice: number | null; // After funding has eroded or added to margin
+  liquidationHour: number | null;
+}
+
+export interface FundingEquityPoint {
+  hour: number;
+  equity: number;
+  maintenanceMargin: number;
+}
+
+export interface FundingHoldResult {
+  config: FundingHoldConfig;
+  positions: FundingPositionResult[];
+  totalFundingPnl: number;
+  accountLiquidationHour: number | null; // First hour the cross account is liquidated
+  equityPath: FundingEquityPoint[]; // Cross account; empty without cross positions
+  liquidatedCoins: string[];
+}
+
+// ==========================================
+// Order Book Types
+// ==========================================
+
+export interface L2Level {
+  price: number;
+  size: number;
+  orders: number;
+}
+
+// Snapshot from the `l2Book` info request; bids best-first descending, asks ascending
+export interface L2Book {
+  coin: string;
+  time: number;
+  bids: L2Level[];
+  asks: L2Level[];
+}
+
+// Result of walking the book to close a position at a reference price
+export interface ExecutionEstimate {
+  referencePrice: number; // Mid for a voluntary close, liquidation price for a forced one
+  averagePrice: number;
+  worstPrice: number;
+  slippage: number; // Percent against the position, always >= 0
+  impactCost: number; // USD lost to slippage versus the reference price
+  filledSize: number;
+  unfilledSize: number; // Size beyond the visible depth, priced at the worst level
+}
+
+export interface CloseImpactEstimate {
+  coin: string;
+  close: ExecutionEstimate;
+  liquidation: ExecutionEstimate | null;
+  liquidationPnl: number | null; // PnL realized if the liquidation fills as estimated
+}
+
+// ==========================================
+// What-If Editor Types
+// ==========================================
+
+export interface PositionEdit {
+  sizeChange: number; // Coins; positive adds to the position, negative reduces it
+  executionPrice: number; // Price the size change fills at
+  marginChange: number; // Isolated only; USD added (positive) or removed
+  leverage: number | null; // New leverage, null keeps the current one
+}
+
+export interface PositionEditResult {
+  position: Position; // Hypothetical position after the edit
+  realizedPnl: number; // From any size reduction
+  distanceToLiquidation: number; // Percent
+  isClosed: boolean;
+  crossPortfolio: CrossPortfolio | null; // Account after the edit, rebased to current prices
+}
+
+// ==========================================
+// Hypothetical Trade Types
+// ==========================================
+
+// Planned trade saved per address and merged into the loaded book
+export interface HypotheticalTrade {
+  id: string;
+  coin: string;
+  side: 'long' | 'short';
+  size: number;
+  leverage: number;
+  entryPrice: number;
+  marginMode: MarginMode;
+  createdAt: number;
+}
+
+export type HypotheticalTradeInput = Omit<HypotheticalTrade, 'id' | 'createdAt'>;
+
+// ==========================================
+// Liquidation Heatmap Types
+// ==========================================
+
+export type HeatmapMetric = 'equity' | 'marginRatio';
+
+export interface HeatmapCell {
+  xMove: number; // Percent
+  yMove: number; // Percent
+  equity: number; // Cross account equity
+  maintenanceMargin: number;
+  marginRatio: number; // Maintenance / equity, Infinity once equity is gone
+  isLiquidated: boolean; // Cross account liquidated
+  isolatedLiquidations: string[]; // Isolated positions liquidated by the move
+}
+
+export interface LiquidationHeatmap {
+  xCoin: string;
+  yCoin: string;
+  moves: number[]; // Percent moves on both axes, ascending
+  rows: HeatmapCell[][]; // rows[y][x]
+  baseEquity: number;
+}
+
+// ==========================================
+// Auto-Deleveraging Types
+// ==========================================
+
+// Estimated place in the ADL queue; bucket 5 is deleveraged first, 0 means not eligible
+export interface AdlEstimate {
+  bucket: number;
+  score: number; // PnL ratio x effective leverage
+  pnlRatio: number; // Unrealized PnL / posted collateral
+  effectiveLeverage: number; // Notional / equity backing the position
+}
+
+// ==========================================
+// Position Sizing Types
+// ==========================================
+
+// Adverse move given as a percent, or as a multiple of daily volatility
+export type SafeSizeMode = 'move' | 'sigma';
+
+export interface SafeSizeConfig {
+  coin: string;
+  side: 'long' | 'short';
+  mode: SafeSizeMode;
+  value: number; // Percent for 'move', sigma multiple for 'sigma'
+}
+
+export interface SafeSizeResult {
+  coin: string;
+  side: 'long' | 'short';
+  price: number;
+  targetPrice: number;
+  adverseMove: number; // Percent against the new position
+  dailyVolatility: number | null; // Fraction, only for sigma-based moves
+  survivalBuffer: number; // Equity above maintenance at the target before the new trade
+  maxSize: number;
+  maxNotional: number;
+  maxLeverage: number; // Leverage to open it with on the free collateral
+  limitedBy: 'move' | 'margin'; // Surviving the move, or the asset's max leverage
+}
+
+// ==========================================
+// Simulated Order Types
+// ==========================================
+
+export type SimulatedOrderKind = 'limit' | 'stop' | 'takeProfit';
+
+// Open order normalized for replay along a simulated price path
+export interface SimulatedOrder {
+  oid: number;
+  coin: string;
+  side: 'buy' | 'sell';
+  kind: SimulatedOrderKind;
+  price: number; // Trigger price, or the limit price for resting limits
+  size: number | null; // Null closes the whole position
+  reduceOnly: boolean;
+}
+
+export interface OrderFill {
+  oid: number;
+  kind: SimulatedOrderKind;
+  side: 'buy' | 'sell';
+  step: number; // Path point (or replay candle) where the order filled
+  price: number;
+  sizeChange: number; // Positive adds to the position, negative reduces it
+  realizedPnl: number;
+}
+
+export interface OrderPathResult {
+  fills: OrderFill[];
+  pnlPath: number[]; // Realized plus unrealized PnL at each path point
+  sizePath: number[];
+  liquidationStep: number | null;
+  finalPnl: number;
+  finalSize: number;
+  finalLiquidationPrice: number | null;
+  liquidatedAt: number | null; // Liquidation level the path hit
+  liquidatedWithoutOrders: boolean;
+}
+
+// ==========================================
+// Crisis Scenario Types
+// ==========================================
+
+// A real stress event as cumulative percent moves from the start, one per day
+export interface CrisisScenario {
+  id: string;
+  name: string;
+  startDate: string; // ISO date of the first close in the paths
+  endDate: string;
+  description: string;
+  assets: Record<string, number[]>; // 'ALT' is a generic altcoin basket used as fallback
+}
+
+export interface CrisisScenarioLibrary {
+  version: string;
+  scenarios: CrisisScenario[];
+}
+
+export interface CrisisPositionOutcome {
+  coin: string;
+  proxy: string; // Scenario asset whose path was applied
+  isFallback: boolean;
+  finalChange: number; // Percent
+  pnlChange: number;
+  worstPnlChange: number;
+  liquidationStep: number | null; // Day index of the first liquidation
+}
+
+export interface CrisisScenarioResult {
+  scenarioId: string;
+  spotValueChange: number; // Spot holdings walked along their coin's path
+  totalPnlChange: number; // Perp PnL plus the spot value change
+  worstPnlChange: number;
+  accountLiquidationStep: number | null; // First day the cross account is liquidated
+  positions: CrisisPositionOutcome[];
+  liquidatedCoins: string[];
+}
+
 // ==========================================
 // Trading Activity Types
 // ==========================================
@@ -97,6 +801,11 @@ export interface OpenOrder {
   sz: string;
   timestamp: number;
   orderType?: string;
+  isTrigger?: boolean;
+  triggerPx?: string;
+  triggerCondition?: string;
+  reduceOnly?: boolean;
+  isPositionTpsl?: boolean; // TP/SL tied to the whole position
 }
 
 // User Fill from Hyperliquid API
@@ -195,20 +904,27 @@ export interface AddressInputProps {
 
 export interface PositionListProps {
   positions: Position[];
+  spotBalances: SpotBalance[];
+  crossEquity: number | null;
   selectedPosition: Position | null;
   onSelectPosition: (position: Position) => void;
+  onRemoveHypothetical?: (coin: string) => void;
 }
 
 export interface PositionCardProps {
   position: Position;
+  crossEquity: number | null;
   isSelected: boolean;
   onClick: () => void;
+  onRemove?: () => void;
 }
 
 export interface PriceChartProps {
   position: Position | null;
   simulationState: SimulationState;
   priceHistory: PriceData[];
+  replay: ReplayResult | null;
+  replayStep: number;
   candleData: CandleData[];
   isLoadingCandles: boolean;
   selectedTimeframe: '24H' | '1W' | '1M' | 'All';
@@ -219,13 +935,118 @@ export interface SimulationControlsProps {
   onSimulate: (percentChange: number) => void;
   isSimulating: boolean;
   onReset: () => void;
+  pathModel: PathModelType;
+  onPathModelChange: (model: PathModelType) => void;
+  seed: number | null; // Null draws a fresh path every run
+  onSeedChange: (seed: number | null) => void;
+  isCalibrated: boolean; // Model parameters come from the coin's candles
+}
+
+export interface CorrelatedShockPanelProps {
+  positions: Position[];
+  driver: string;
+  driverOptions: string[];
+  onDriverChange: (driver: string) => void;
+  betas: Record<string, BetaEstimate>;
+  onBetaOverride: (coin: string, beta: number | null) => void;
+  isLoadingBetas: boolean;
+  onRun: (driverChange: number) => void;
+  onReset: () => void;
+  result: CorrelatedShockResult | null;
+}
+
+export interface MonteCarloPanelProps {
+  position: Position | null;
+  canRunPortfolio: boolean;
+  isLoadingHistory: boolean;
+  isRunning: boolean;
+  onRun: (config: MonteCarloConfig) => void;
+  result: MonteCarloResult | null;
+}
+
+export interface HistoricalReplayPanelProps {
+  candles: CandleData[];
+  replay: ReplayResult | null;
+  step: number;
+  onStepChange: (step: number) => void;
+  onReplayWindow: (startIndex: number, endIndex: number) => void;
+  onReplayWorst: () => void;
+  isLoadingWorst: boolean;
+  onReset: () => void;
+}
+
+export interface FundingPanelProps {
+  positions: Position[];
+  isLoadingRates: boolean;
+  onRun: (config: FundingHoldConfig) => void;
+  onReset: () => void;
+  result: FundingHoldResult | null;
+}
+
+export interface WhatIfEditorProps {
+  position: Position;
+  crossPortfolio: CrossPortfolio | null;
+  prices: PriceVector;
+  marginModel: MarginModel | null;
+}
+
+export interface HypotheticalTradeBuilderProps {
+  trades: HypotheticalTrade[];
+  heldCoins: string[];
+  marketPrices: PriceVector;
+  marginModel: MarginModel | null;
+  onAdd: (trade: HypotheticalTradeInput) => void;
+  onRemove: (id: string) => void;
+}
+
+export interface LiquidationHeatmapPanelProps {
+  positions: Position[];
+  crossPortfolio: CrossPortfolio | null;
+  prices: PriceVector;
+}
+
+export interface SafeSizePanelProps {
+  coins: string[]; // Suggestions: held coins first
+  canRun: boolean;
+  isRunning: boolean;
+  onRun: (config: SafeSizeConfig) => void;
+  result: SafeSizeResult | null;
+  error: string | null;
+}
+
+export interface CrisisScenarioPanelProps {
+  library: CrisisScenarioLibrary;
+  results: Record<string, CrisisScenarioResult>;
+  activeScenarioId: string | null;
+  onSelect: (scenarioId: string) => void;
+  onReset: () => void;
 }
 
 export interface PositionStatsProps {
   position: Position;
   simulationState: SimulationState;
+  crossEquity: number | null;
+  replay: ReplayResult | null;
+  replayStep: number;
+  impact: CloseImpactEstimate | null;
+  isLoadingImpact: boolean;
+  orderPath: OrderPathResult | null; // Open orders worked along the simulated path
+  openOrderCount: number;
+  crossPortfolio: CrossPortfolio | null;
+  prices: PriceVector;
+  marginModel: MarginModel | null;
 }
 
 export interface TradingActivityProps {
+  client: HyperliquidClient;
   address: string | null;
+}
+
+export interface RequestStatusBadgeProps {
+  client: HyperliquidClient;
+}
+
+export interface EnvironmentSelectorProps {
+  config: EnvironmentConfig;
+  onChange: (config: EnvironmentConfig) => void;
 }
\ No newline at end of file